@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+
+import type { CommitDetail, FirstCommit, ForgeUser } from './core/types.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import type { ApiOptions } from './api.ts';
+import { handleApiRequest } from './api.ts';
+import { notFoundError, transientError } from './core/retry.ts';
+
+const user: ForgeUser = { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' };
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+  repoCreatedAt: '2012-04-30T00:00:00Z',
+};
+const commitDetail: CommitDetail = {
+  sha: commit.sha,
+  authorLogin: 'alice',
+  committerLogin: 'alice',
+  authorEmail: null,
+  authorDate: commit.date,
+  committerDate: commit.date,
+  authorId: 42,
+  verificationReason: null,
+  isRootCommit: true,
+  message: commit.message,
+  verified: false,
+};
+
+/** Fails lookups of `ghost`, `outage` and `badtoken` the way each forge error would. */
+const provider: ForgeProvider = {
+  kind: 'github',
+  name: 'GitHub',
+  apiUrl: 'https://api.github.com',
+  fetchUser: async (username) => {
+    if (username === 'ghost') throw notFoundError(`GitHub user '${username}' not found.`);
+    if (username === 'outage') throw transientError('GitHub API unavailable: 503');
+    if (username === 'badtoken') throw new Error('GitHub API error: 401 Unauthorized');
+    return user;
+  },
+  fetchUserById: async () => user,
+  fetchFirstCommit: async () => commit,
+  fetchRepo: async () => ({ fullName: commit.repo, createdAt: commit.repoCreatedAt ?? null }),
+  fetchCommit: async () => commitDetail,
+  matchesNoreplyEmail: () => false,
+};
+
+const options: ApiOptions = { provider };
+const server = createServer((req, res) => {
+  void handleApiRequest(req, res, new URL(req.url ?? '/', 'http://localhost').pathname, options);
+});
+let base = '';
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+after(() => server.close());
+
+async function request(
+  path: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string },
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${base}${path}`, init);
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+function postJson(body: string, contentType = 'application/json') {
+  return request('/api/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body,
+  });
+}
+
+describe('GET /api/certificate/:username', () => {
+  it('issues a certificate', async () => {
+    const { status, body } = await request('/api/certificate/alice');
+
+    assert.equal(status, 200);
+    assert.equal(body.type, 'LASTGEN_CERTIFICATE');
+    assert.equal(body.era, 'LAST_GEN');
+  });
+
+  it('answers 404 only for a missing user', async () => {
+    assert.equal((await request('/api/certificate/ghost')).status, 404);
+    assert.equal((await request('/api/certificate/outage')).status, 503);
+
+    const badToken = await request('/api/certificate/badtoken');
+    assert.equal(badToken.status, 502);
+    assert.match(String(badToken.body.error), /401/);
+  });
+
+  it('refuses other methods and unknown routes', async () => {
+    assert.equal((await request('/api/certificate/alice', { method: 'DELETE' })).status, 405);
+    assert.equal((await request('/api/nothing')).status, 404);
+  });
+});
+
+describe('POST /api/verify', () => {
+  it('verifies a certificate issued on the same instance', async () => {
+    const { body: cert } = await request('/api/certificate/alice');
+    const { status, body } = await postJson(JSON.stringify(cert));
+
+    assert.equal(status, 200);
+    assert.equal(body.status, 'valid');
+  });
+
+  it('refuses bodies that are not certificates', async () => {
+    assert.equal((await postJson('{}', 'text/plain')).status, 415);
+    assert.equal((await postJson('{')).status, 400);
+
+    const invalid = await postJson('{"version":"2.0"}');
+    assert.equal(invalid.status, 422);
+    assert.ok(Array.isArray(invalid.body.details));
+  });
+
+  it('refuses certificates from other instances', async () => {
+    const { body: cert } = await request('/api/certificate/alice');
+    const identity = { ...(cert.identity as object), apiUrl: 'http://169.254.169.254/api/v3' };
+    const { status, body } = await postJson(JSON.stringify({ ...cert, identity }));
+
+    assert.equal(status, 422);
+    assert.match(String(body.error), /only verifies certificates issued on github/);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview JSON API served by `lastgen serve`, so internal tools can look up and verify
+ * certificates without shelling out to the CLI:
+ *
+ *   GET  /api/certificate/:username   Issue a certificate, as `lastgen --json <username>`
+ *   POST /api/verify                  Verify the certificate in the request body
+ *
+ * Errors are JSON objects with an `error` message and, for schema errors, `details`.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Buffer } from 'node:buffer';
+
+import type { CertificateSigner, EraPolicy } from './core/types.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import { getIssuingApiUrl } from './core/forge.ts';
+import { lookupCertificate } from './core/lookup.ts';
+import { isNotFoundError, isTransientError } from './core/retry.ts';
+import { formatSchemaErrors, validateCertificate } from './core/schema.ts';
+import { isValidCertificate, verifyCertificateData } from './core/verify.ts';
+import { nodeHash } from './hash.ts';
+import { nodeVerifySignature } from './sign.ts';
+
+export interface ApiOptions {
+  /** Forge for lookups, authenticated with the server's token. */
+  provider: ForgeProvider;
+  signer?: CertificateSigner;
+  /** Raw base64url Ed25519 public keys of trusted issuers, for POST /api/verify. */
+  trustedKeys?: string[];
+  /** Era policy for lookups, also accepted by POST /api/verify. Defaults to DEFAULT_POLICY. */
+  policy?: EraPolicy;
+}
+
+/** Certificates with an embedded snapshot run to a few hundred KB; anything bigger is refused. */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+const CERTIFICATE_PATH = /^\/api\/certificate\/([^/]+)$/;
+
+function writeJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(JSON.stringify(body, null, 2) + '\n');
+}
+
+function writeError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  details?: string[],
+  headers?: Record<string, string>,
+): void {
+  writeJson(res, status, details ? { error: message, details } : { error: message }, headers);
+}
+
+/** Reads the request body as UTF-8, or returns null once it grows past `limit` bytes. */
+function readBody(req: IncomingMessage, limit: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+async function handleCertificate(
+  res: ServerResponse,
+  username: string,
+  options: ApiOptions,
+): Promise<void> {
+  try {
+    const cert = await lookupCertificate(nodeHash, options.provider, username, {
+      signer: options.signer,
+      policy: options.policy,
+    });
+    writeJson(res, 200, cert);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (isTransientError(err)) {
+      writeError(res, 503, message);
+    } else if (isNotFoundError(err)) {
+      writeError(res, 404, message);
+    } else {
+      // e.g. a rejected operator token: a server problem, not a missing user.
+      writeError(res, 502, message);
+    }
+  }
+}
+
+async function handleVerify(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: ApiOptions,
+): Promise<void> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_BODY_BYTES) {
+    writeError(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    return;
+  }
+  const contentType = req.headers['content-type'] ?? '';
+  if (!contentType.startsWith('application/json')) {
+    writeError(res, 415, 'Content-Type must be application/json');
+    return;
+  }
+
+  const body = await readBody(req, MAX_BODY_BYTES);
+  if (body === null) {
+    writeError(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    return;
+  }
+
+  let cert: unknown;
+  try {
+    cert = JSON.parse(body);
+  } catch {
+    writeError(res, 400, 'Request body is not valid JSON');
+    return;
+  }
+
+  if (!isValidCertificate(cert)) {
+    writeError(
+      res,
+      422,
+      'Request body is not a valid lastgen certificate',
+      formatSchemaErrors(validateCertificate(cert)),
+    );
+    return;
+  }
+  if (cert.proof.source?.kind === 'local-git') {
+    writeError(res, 422, 'Local-git certificates can only be verified against their clone');
+    return;
+  }
+
+  // Verifying fetches from the forge the certificate names, so a certificate from any other
+  // instance would have the server request a host of the client's choosing.
+  const forge = cert.identity.forge ?? 'github';
+  const provider = options.provider;
+  const issuingApiUrl = getIssuingApiUrl(forge, cert.identity.apiUrl);
+  if (provider.kind !== forge || provider.apiUrl !== issuingApiUrl) {
+    writeError(
+      res,
+      422,
+      `This server only verifies certificates issued on ${provider.kind} at ${provider.apiUrl}`,
+    );
+    return;
+  }
+
+  const result = await verifyCertificateData(cert, nodeHash, {
+    provider,
+    trustedKeys: options.trustedKeys,
+    verifySignature: nodeVerifySignature,
+    policy: options.policy,
+  });
+  writeJson(res, 200, result);
+}
+
+/** Answers a request under /api/. `path` has the query string and any /lastgen prefix removed. */
+export async function handleApiRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  options: ApiOptions,
+): Promise<void> {
+  const certificateMatch = CERTIFICATE_PATH.exec(path);
+  if (certificateMatch) {
+    if (req.method !== 'GET') {
+      writeError(res, 405, `Use GET for ${path}`, undefined, { Allow: 'GET' });
+      return;
+    }
+    let username: string;
+    try {
+      username = decodeURIComponent(certificateMatch[1] ?? '');
+    } catch {
+      writeError(res, 400, 'Username is not valid URL encoding');
+      return;
+    }
+    await handleCertificate(res, username, options);
+    return;
+  }
+
+  if (path === '/api/verify') {
+    if (req.method !== 'POST') {
+      writeError(res, 405, 'Use POST for /api/verify', undefined, { Allow: 'POST' });
+      return;
+    }
+    await handleVerify(req, res, options);
+    return;
+  }
+
+  writeError(res, 404, `No API route for ${req.method} ${path}`);
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import type { FirstCommit, ForgeUser } from './core/types.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import { formatBatchCsv, readUsernames, runBatch } from './batch.ts';
+import { notFoundError, transientError } from './core/retry.ts';
+import { nodeHash } from './hash.ts';
+import { createScheduler } from './scheduler.ts';
+
+const dir = mkdtempSync(join(tmpdir(), 'lastgen-batch-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+  repoCreatedAt: '2012-04-30T00:00:00Z',
+};
+
+/** Knows `alice`; `ghost` doesn't exist and `outage` hits a forge outage. */
+const provider: ForgeProvider = {
+  kind: 'github',
+  name: 'GitHub',
+  apiUrl: 'https://api.github.com',
+  fetchUser: async (username): Promise<ForgeUser> => {
+    if (username === 'ghost') throw notFoundError(`GitHub user '${username}' not found.`);
+    if (username === 'outage') throw transientError('GitHub API unavailable: 503');
+    return { login: username, id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' };
+  },
+  fetchUserById: async () => {
+    throw new Error('unused');
+  },
+  fetchFirstCommit: async () => commit,
+  fetchRepo: async () => ({ fullName: commit.repo, createdAt: commit.repoCreatedAt ?? null }),
+  fetchCommit: async () => {
+    throw new Error('unused');
+  },
+  matchesNoreplyEmail: () => false,
+};
+
+describe('readUsernames', () => {
+  it('skips blanks and comments and drops duplicates case-insensitively', () => {
+    const file = join(dir, 'users.txt');
+    writeFileSync(file, '# team\nalice\n\n  bob  # lead\nAlice\n');
+
+    assert.deepEqual(readUsernames(file), ['alice', 'bob']);
+  });
+});
+
+describe('runBatch', () => {
+  it('writes a certificate per user and records failures without stopping', async () => {
+    const outDir = join(dir, 'certs');
+    const progress: number[] = [];
+    const entries = await runBatch(
+      ['alice', 'ghost', 'outage'],
+      provider,
+      createScheduler({ concurrency: 2 }),
+      nodeHash,
+      { outDir, onProgress: (_entry, done) => progress.push(done) },
+    );
+
+    assert.deepEqual(progress, [1, 2, 3]);
+    const [alice, ghost, outage] = entries;
+    assert.equal(alice?.certificate?.era, 'LAST_GEN');
+    assert.equal(alice?.file, join(outDir, 'alice.json'));
+    assert.equal(
+      JSON.parse(readFileSync(join(outDir, 'alice.json'), 'utf-8')).certificateNumber,
+      alice?.certificate?.certificateNumber,
+    );
+    assert.equal(ghost?.transient, false);
+    assert.match(ghost?.error ?? '', /not found/);
+    assert.equal(outage?.transient, true);
+  });
+
+  it('labels transient failures apart from errors in CSV output', async () => {
+    const entries = await runBatch(
+      ['ghost', 'outage'],
+      provider,
+      createScheduler({ concurrency: 1 }),
+      nodeHash,
+    );
+    const [header, ghost, outage] = formatBatchCsv(entries).trimEnd().split('\n');
+
+    assert.equal(header, 'username,status,era,proof_date,certificate,file,error');
+    assert.equal(ghost, "ghost,error,,,,,GitHub user 'ghost' not found.");
+    assert.equal(outage, 'outage,unavailable,,,,,GitHub API unavailable: 503');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Batch lookups: classifies many users through one shared scheduler, writes
+ * a certificate per user, and formats the run as a table, JSON or CSV.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { Certificate, EraPolicy, HashFn } from './core/types.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import type { LookupOptions } from './core/lookup.ts';
+import type { Scheduler } from './scheduler.ts';
+import { lookupCertificate } from './core/lookup.ts';
+import { DEFAULT_POLICY } from './core/policy.ts';
+import { isTransientError } from './core/retry.ts';
+import { style } from './display.ts';
+
+export interface BatchEntry {
+  username: string;
+  certificate?: Certificate;
+  /** Path the certificate was written to. */
+  file?: string;
+  error?: string;
+  /** The error was a rate limit or outage, so a rerun may succeed. */
+  transient?: boolean;
+}
+
+export interface BatchOptions extends Omit<LookupOptions, 'onStatus'> {
+  /** Directory certificates are written to. Nothing is written when absent. */
+  outDir?: string;
+  onProgress?: (entry: BatchEntry, done: number, total: number) => void;
+}
+
+/** One username per line. Blank lines and `#` comments are skipped, duplicates dropped. */
+export function readUsernames(filePath: string): string[] {
+  const seen = new Set<string>();
+  const usernames: string[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    const username = line.replace(/#.*/, '').trim();
+    if (username && !seen.has(username.toLowerCase())) {
+      seen.add(username.toLowerCase());
+      usernames.push(username);
+    }
+  }
+  return usernames;
+}
+
+export async function runBatch(
+  usernames: string[],
+  provider: ForgeProvider,
+  scheduler: Scheduler,
+  hashFn: HashFn,
+  options: BatchOptions = {},
+): Promise<BatchEntry[]> {
+  if (options.outDir) {
+    mkdirSync(options.outDir, { recursive: true });
+  }
+
+  let done = 0;
+  const settled = await scheduler.map(usernames, async (username): Promise<BatchEntry> => {
+    const entry = await lookupEntry(username, provider, hashFn, options).catch(
+      (err: unknown): BatchEntry => ({
+        username,
+        error: err instanceof Error ? err.message : String(err),
+        transient: isTransientError(err),
+      }),
+    );
+    options.onProgress?.(entry, ++done, usernames.length);
+    return entry;
+  });
+
+  return settled.map((result, index) =>
+    result.status === 'fulfilled'
+      ? result.value
+      : { username: usernames[index] ?? '', error: String(result.reason) },
+  );
+}
+
+async function lookupEntry(
+  username: string,
+  provider: ForgeProvider,
+  hashFn: HashFn,
+  options: BatchOptions,
+): Promise<BatchEntry> {
+  const certificate = await lookupCertificate(hashFn, provider, username, options);
+  let file: string | undefined;
+  if (options.outDir) {
+    file = join(options.outDir, `${certificate.identity.username}.json`);
+    writeFileSync(file, JSON.stringify(certificate, null, 2) + '\n');
+  }
+  return { username, certificate, file };
+}
+
+export interface BatchRow {
+  username: string;
+  /** `unavailable` marks a transient failure, as opposed to a definite error. */
+  status: 'ok' | 'error' | 'unavailable';
+  era: string;
+  proofDate: string;
+  certificateNumber: string;
+  file: string;
+  error: string;
+}
+
+export function toBatchRow(entry: BatchEntry): BatchRow {
+  const cert = entry.certificate;
+  return {
+    username: cert?.identity.username ?? entry.username,
+    status: cert ? 'ok' : entry.transient ? 'unavailable' : 'error',
+    era: cert?.era ?? '',
+    proofDate: cert?.proof.proofDate ?? '',
+    certificateNumber: cert?.certificateNumber ?? '',
+    file: entry.file ?? '',
+    error: entry.error ?? '',
+  };
+}
+
+export function formatBatchJson(entries: BatchEntry[]): string {
+  return JSON.stringify(entries.map(toBatchRow), null, 2) + '\n';
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatBatchCsv(entries: BatchEntry[]): string {
+  const header = 'username,status,era,proof_date,certificate,file,error';
+  const lines = entries
+    .map(toBatchRow)
+    .map((row) =>
+      [row.username, row.status, row.era, row.proofDate, row.certificateNumber, row.file, row.error]
+        .map(csvField)
+        .join(','),
+    );
+  return [header, ...lines].join('\n') + '\n';
+}
+
+/** `policy` issued the certificates; it sets the era columns and summary. */
+export function formatBatchTable(
+  entries: BatchEntry[],
+  policy: EraPolicy = DEFAULT_POLICY,
+): string {
+  const rows = entries.map(toBatchRow);
+  const nameWidth = Math.max(8, ...rows.map((row) => row.username.length));
+  const eraWidth = Math.max(9, ...policy.eras.map((era) => era.key.length));
+  const latestEra = policy.eras[policy.eras.length - 1]?.key;
+  const pad = (text: string, width: number): string => text.padEnd(width);
+
+  const lines = [
+    style(
+      'bold',
+      `${pad('USERNAME', nameWidth)}  ${pad('ERA', eraWidth)}  ${pad('PROOF DATE', 10)}  CERTIFICATE`,
+    ),
+  ];
+  for (const row of rows) {
+    if (row.status !== 'ok') {
+      const label =
+        row.status === 'unavailable'
+          ? style('yellow', pad('TRANSIENT', eraWidth))
+          : style('red', pad('ERROR', eraWidth));
+      lines.push(
+        `${pad(row.username, nameWidth)}  ${label}  ${pad('-', 10)}  ${style('dim', row.error)}`,
+      );
+      continue;
+    }
+    const eraColor = row.era === latestEra ? 'cyan' : 'green';
+    lines.push(
+      `${pad(row.username, nameWidth)}  ${style(eraColor, pad(row.era, eraWidth))}  ${row.proofDate.slice(0, 10)}  ${row.certificateNumber}`,
+    );
+  }
+
+  const eraCounts = policy.eras.map(
+    (era) => `${rows.filter((row) => row.era === era.key).length} ${era.key}`,
+  );
+  const failed = rows.filter((row) => row.status !== 'ok').length;
+  const transient = rows.filter((row) => row.status === 'unavailable').length;
+  lines.push('');
+  lines.push(
+    `${rows.length} users: ${eraCounts.join(', ')}, ${failed} failed` +
+      (transient > 0 ? ` (${transient} transient; rerun to retry)` : ''),
+  );
+
+  return '\n' + lines.map((line) => (line ? `  ${line}` : line)).join('\n') + '\n\n';
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Printable ASCII glyphs of DejaVu Sans Mono at the share card's 32px, for
+ * card-png.ts. Each glyph is a GLYPH_WIDTH x GLYPH_HEIGHT cell of 4-bit coverage, two pixels
+ * per byte, row by row; the cells of characters 32 to 126 follow each other, raw-deflated
+ * and base64 encoded. Rasterized from DejaVuSansMono.ttf (Bitstream Vera license).
+ */
+
+export const GLYPH_WIDTH = 20;
+export const GLYPH_HEIGHT = 34;
+/** Rows above the baseline. */
+export const GLYPH_ASCENT = 26;
+/** Whole-pixel advance: the font's is 19.27px at 32px. */
+export const GLYPH_ADVANCE = 19;
+export const FIRST_GLYPH = 32;
+export const LAST_GLYPH = 126;
+
+export const GLYPH_DATA = [
+  '7V0LkFtXeT5Xr31oH5ppcGIcexWXh4GSXZjGJDWwClkbSNNIZTwmbaes8rASkgZtmJDwCiuckigE0EIgZKfFWgLl',
+  'MSFoeRQcRHJd2kJahtGaEjCkyjXhkTip5+5Tq5VW96///5zzX9lyjF8S68RnPJ5vda/OPefc//zv80uIM61VbduV',
+  'GlnzLUBzjGY1Ml00rVGO0RUjxzaPYx1B85svgf+wBQH/nTrk9vxCbnZKZPch8EJMWBOI2iBkQBxR57LwQxhRT1l0',
+  'OPSFwQXRXRHCSKdz5XSmmt7hAdXmPcUiHChCrfg/Qni4u4DbXY27WxLtsrv+BdFVEUIUi7ZTtJziY0J3VxLpNOxK',
+  'F55O337coxNCjM6IvlIL6DOmUXDqKGjVJ/bfHEKwGqdWpf3pfG6/WRNCtMNEcMq4XgjRDSH1jd5l/d3emkZdEFEo',
+  'AOVNquccwNJfyw8tAPiwHNSHAGohOYI9N8KkGothz+pRZRc0ypSEMAiZ80L0jIjglA+mhOh1vnTZ77IQwedi+y3e',
+  '/7Kv2c53Q8cw3zrUPnHyq7wlosC7wImpJXjWlq+3b0l0ODSm4SkhCnQ5MyZENoUoOXmQE44oSiNy8YgO+EpuSYiz',
+  'n6DlGxOXwt6Q8N51u3EbfJu69GZrO+RrK1Tlky+CveG2wjNh0QbfFoaJy+HdIUSHc9Vfymf3zQtRoOcM7hNidPJQ',
+  'RFdpPB3OVZsk0RoFAPkWxDnWMwOt2vAX5ndJeukAgCVCGfjvhwkZ+JY3EgXBmCZwSCnk5c+EPaNRZkmjdaC2gmHC',
+  'kxKtAbOqyHQhiP08OOGDMcOeF8Kc7ISQiDphYU70VHETTAor1Ye9mWUDYv34xfNhM4R6cWf74UBFBGnfZ+BJ4QcU',
+  'QX04oBzcI15u498vRjJ1skj4NwLApzqI8DfecnHzF3VLvFHqnhrk9vwCad5LNBpk9m1OMTHq5ehy9MVomfUcrfsY',
+  'sFshP1NvpyZP5LIK9XEng8vcXVWj5BGQe3WwJhp66ZY7mzZXrGEEBjBPzLLmNsijD3I37izdmYv+UuMKHVPzDDFy',
+  '+83+mvvlAXTyurh7Xlj7eKcv8CIsNU69i6fuLnQ7jDBKMRo7Akrxso0c4XXpnvt4yYd5BFnWRW2XSHQnQZ6RO0ue',
+  'uZdXw12hE2mbeFGjqcNQMI7osrAQb1weiKZeiU80MkvDd9r303OzoASO8IEaoJEBoIviQ5VkGj4phHhDLRZNvQrl',
+  'XlcK+/v78JGfhreOiBdoe0mEX/D0iSFfIpEwS4nEdpKM2Gp1yDM0NGTODw1dclLPOHSkZ9oxNyO/i5lYtQF5oaJQ',
+  'AOaZgUwq1AN6xQeZe48yA77i+SFgA9qsqEPedDp9xxnaaWXz5b/LL2TpmFCrNlAi0iCVexwtHkdZPFozPMKxBtE+',
+  'XGG9ZI6F7SRvuEiDMpVd4L06xY+PNygPmUU9SltL5zbWCXpYiCeXGvxdfpjgUQ406GjmPDOI3ad6Qc9+YNcA7zc5',
+  'sCQ8a9F4PFAWfjJPO/DvZI2MlQHUZSJCDNfoQkqITIWmsFuI3CKNcp8QhRJ1MENutg9+UsAsItQPJGqDqkIee16i',
+  'BbFqgJApvzstRK5M7wYN0AqN8aAZPOjQW0rhMGJqQO2wR4gsLphhLUcuAnqtb0SRR2/JawI8pt7g269uPpVuTMh3',
+  'fcUjIKmJnEsK1b4ukfGRcDfT2spG7xvfCQ+NoxJnkh4xewhqCUP6aP5eWtNX2ABSyUwCPAG0bZNPR8Qr6cO3025l',
+  'ftBXN5M4oxhf1VstWeONu9Agd0eVC0r44Td6a+p+vXz/+foBhq25wFq99w1L86U1vM+z8NXx8fHxGCJqqXrUkvbS',
+  'j+bvDUuXB+59nGU/rek3hBCv/kxYbADmp0nmXj1HoJMeXslhzQzblFvrge+DI1fGAvimvPZwUX8mxNk2PyPKvXTw',
+  'GviZ4/mY9Qb4syAy93uk7+cgR7L2bh36ICkNFi0kzuMGpJefy5e17Y63tWBZV7GIymjZ4wWNuhyNRvcq5IErFApW',
+  'tTE5PKuQYacU6qiFFIouaKPTmlSoHcIKoSEuUWGPQn549/r1G+D+84jHS8etizyJRCJxPXznmqMZtkdDzQ+dYIvT',
+  '68Y2fRi6ha+GmSyOji5IXKwQAHyLETGG4KNbt+RI+/bQ/mZbfZCpPVjnBZhgNNnwmXsfffcq7NNCncLctXVzlmQU',
+  'MVFyBd+GSFrML7n2jub7+jzvz3+ZtpuBXGdR8is4IHe86dwkfJ+lrfYk6yWxBrXIVbey82Lj9rAM3L0eoBqmsJ6t',
+  '/O1WrXrxiyxkoxYu01rU3CxkKLSTrarWFEzSP1CmkNwn9SjDn0X5vh7+Lukl1J/HrkbOKhCrjuJS/kbL/UpYyf33',
+  'hJq7otuIThMxzX2QXyk0oa7eyDTU7yqN5QZt0McMrtPVMpkBj7L2ygFMlzd2Ms31McGPsiJZWGBFch+z2rHnFoei',
+  'sMhfmOEvTLZS4X9L/iFJeK/XO8Vrw48fgRLR5E+FkUNpPyi10rjSSok5kbeTUHRZe+d6cFG68C0EUDqQ4ipGna8+',
+  'CJ8nIimoAJF4F9SAvFbt8JjwkfsfnfyiC3tRWumUfgNIndJgx/9tieaEKCzRfTNCjOL4zpXE/1T4RQX802vL8CAq',
+  'NciJ5eqfdd32ULPX9G/yX5a08Vda5/cB/Fjq/OvgG8JHsjuJmymKy2kuCrVq9pxeSdL8SB9XaEpdbUO2TITWiYiW',
+  'uB/vGYQYxlRmkYQqiY8vk4mWA4AnLWTkfhP2hxVZrhdeprIAU3QX7x56yQaOm/Qv3/6tm3M0eh/JtJB6lTW5eTzb',
+  'bhkQp0fzjd97nHa3sf6857O9fxqv6fPU1/dWPZVPKCnhN0GiDTbIePPfAVRw/N6dAN/BzegrqCu49SNajlSURuEz',
+  'wblddfpxgB8p/ncpQFXdcbYFzj3q5hywsXZbzRUTz0MnnD8t251H9OQb61V7jmiZbJcc8btuz8+/1sa5ax1wDyNN',
+  'VcY/AFPgBgtqNzFVwRcF3/EL9b0LWf2/SCHPbQA/VFQvSfKtNixfqa7sH1BP+6F6rqZrEYitgKV58wNKl8K8Aici',
+  '/VJFW1o7zruF30ZFyZMiHTrcwIqOYOV7bR3OvZxtXbvCLhFtCeX0Rwb8usHheiTkzaeOGiSYPCb0x2re9+d3hbX9',
+  'oZ1Vv7xlJ65HAH4mhJFbQM6OJBmsCWHukbMP+9DI8l4s7FjnshDtNtxvxXsWyUys2fHBOdEOX/BmIT48LfoqSGjx',
+  'zJQYnqOQeGZSZFB7suLZSZFBe8Cs+8y9D79bJctC9venOYj3lEkTq9lxzD9rs+HzD8e8ZFW9hl4fS551zgC/+af0',
+  'h2+A/ddsvkuoqC+otKDrn3AePUFN1pO4mo3pZXY2aYrsd7RRNLqoX7U5U5hRBLZbBfgDkIpWlFgd6HFUpEC796MV',
+  'rVhmS9qrj/YX2WDkZs8ualWXDM8ueGh8PIdGWL/konE0HIrF4hM4BvZYG9JOsha05yq7pG2yqKP3Ui9Eos5hLoLm',
+  'tpclEolLlCMPAJ4Ja0SpW8nloaG3W7i7yWY6l60n0uoJ+VCXV0h/JoMCVerqoG2QdPJ5aZdRz1X5jGLRhqdU7onx',
+  'LqQp+oYX7QCZj4LWlERoqEqUZJRhZOn7Xoy2VdIZH/8n8pXKeZTVc2vfDbfUOL2SDSl6lW0AByzplIb7hXHjJLrw',
+  'iAPEkJp2MyuNsdOT7Xr2q+Tc+BQ7Bwqum+AIn7n3Zfm7o3WuqzDvohEOTHHqjIWMyJuiiMlTr73AnCTDCmdEu2u1',
+  'DaDSB33XXdNc43RbYvubhPYWK3FKPpQlOfOh66SVapWQOBcVkt5pQjRBq6T9FIT8aFUSIqqz5F6dV8hgJI7wmQdp',
+  'jRDZ8YQC3F8nDoZQH75QQrmaGtUmkqtWdfxhoFWnefxMzej/Pt06NZL9Ut3sl6pHd/DVkwkU/Tifz+fj3DNF5w4U',
+  'i8XiSDPCUg9h7ORT/LT5etSK5pFrepXQjvTSoej3fNUNWhw/quKaRrjnOKIarmnsZHs+XtSiVX1//ktSeUC30BLC',
+  'V5OCmsIYWi0mfGYKNzaqS/4RlMQcaWHeaXEMHuYafJd+mD7yJPuRclxE960et+f1dzECL2kLkeS2iCSPRSTThhG1',
+  'kQuRYvYmfHr9pfS9NfQGP6+V7/9UEbhbmxyQ2oZBB5G4kjncbBNQDcmUEOiYsIWaUbEpTzsqaiE/DTHPCdcjfyIB',
+  '5YSK/7vsaEWj9vFxqI6PP8eMWtIMHeOTqRLThyIjkbiOt67vj4b2NYRbSMn3hHTYz/c78qDH8ZYfvfalFoYmfMBu',
+  '/htQP5Us66xrtzd7aeXe9ycian9knbBE7RgcI5RBJwAiybMQjRIfs0rCL091WCUxLJVVq+SXcUJhlS5XeqS1ZKtk',
+  'C0uGuQhV1IEQC8YyDk3TqohuqU1aJeGVq4FPk5cRraXLiHx0mcaHQ5ZoLWtzPhyEnFEO1IzEulOfGPUcsejGFIXT',
+  'Hf0X6lKfFdo9WK1HLVnSa0ihwnzlGunU5KkcQCMJkZ0SYthGlD0onnNZRNGDBqAdRXRpWfidXkSba6KzTOhiiPTN',
+  'E4rkUsNTEg1PmSmJehYgIlFnrSYk8kNZIQzfKfS+MY3k+bVTg1rStpEAIrlPb1pK532MFhhVNaoir5d5eDq+Z83n',
+  '9mkULWnUvSw4h29AIQPGFBLZGY0GSxp11TQKQEQhYU9olJ3RqH9Ro2BNIz9oJGxGGUb9LctBExse2BXR/mQZZRQ5',
+  'OGCTPhqAkvCR65NMUApIk5MnyBmSlLFQWNQaKYUuUUs1VOx4QXjkXKzSH0RzmoPWxZ11f1I/JcGF3hPRRlmTMvI9',
+  'ggNCtw2ybS9U33SR5OmjoPm3zwJQrj3vtde0QJfaGlL+PYDluEawTNrIzUNvLuDoyfbrkHZehOSORpj0KVGmxmhZ',
+  'o0JFIT8KFUTerGv/OgMafVNZlfddJZqaUHmGTo+XTuFQOk0eQqdlTae5mnts60l2iunETbHm31nPPLEV3ZJIXPMa',
+  '2SkO4F8Z0VjM8tDQbeSiIj8wqiUSrcN5EKJMRbOkE24O+4y8R4gMOkltVtLpnZTBRM/YG9LoP+i5i+tfQgea6Rtt',
+  '9FapF1pOQoO4u9UzUgr50OFHiPyGEg07IYUwsUWigOsZbHK78IHv3UzgVTi5/agG2HDgCVIDunGyLz+AY0RWIAJ0',
+  '+pY9n/ONyGTPZ1Il0tGZ70flMWE8pizfmwgg/IH0OLzT0ifM8Ribm9c3xV4EPiLsFqfA8+chodOo7h4gn/kE8p2b',
+  '17/Oxh2VYd/62fjiZA6asfHWJrtPVyVUG4jq8gMpF+FVu4xXRasqe7QANb1tuZos0Hg9v1pJyD0jkeW8tExZpxEm',
+  'JWedUN6ytWicdsLTr91o1eQZd0zAooCArXLAW+DmD0j/iD8RVnn5/RDukGw9WdOGNs5LVnqgg/Z8sqRuRlJuxdWp',
+  'GUoLlRG7ZR1NltmVeM5fHvXJzQtDdj9c1tUB+pYPbviYDMeFumQ8pg1ifer0GYwNK5+iNZVVPCA7aykOES3rwHcf',
+  'aDEfBMf14baKTBMq72Hblbqejj2rDw7BdLak8o+mVNKuDyZUeDQAqf6qYnvx3prwFB9Dc6ULBFpFQQh1QhjjsN2O',
+  'aIdIsAZY1SMAsZ4SDPRVhBdGBmcKI4NlYcBYcio7MbwghD2ZHUtOYcZSYXch3j+TmREi92sY6CGLYnTeEZ2LhUk8',
+  'iVUVbVV7DEVWWfgclJd9qCRQMnY3Mt8CStMgknIGtPgcbpEZ5U3EFJ0qTQZzIsnXTMUfiHiJbkm4ktQlsqXDT+J8',
+  'CKtchDaYXKdcaYV5fUpssKadFtLcleKmwvE5fYrlfD48YJYLc8rtNBWVHu91EAlKX0y2IjwkuX24nzOs4a1DqqQx',
+  'o16n5lFYlNoHZbUm5ZOCMNGKNX1ZQntS1sm9PwgDfqlyYP53oSzql5M0QXrnlJRsYIqp5P2jVakwknqtVtcHu3U6',
+  'tVnWakw/6HyBDs4mMGChlX7Wpjcl+Ler5HfM8apD8qq9xKS1R+il0YaJ6WZB7uH0naNcXMcXc0vsFdUX1/LF7NEu',
+  'cs0VL190U3wxvo8trHQpZK4uaq5DCtdR7gidaxiE4uMaHespk+cLctdAI6+uH3D8YVP96gzbLcihI3Z1hTE63KIW',
+  'rmfXVf/dpNggE4PPZV8FzldyC2y45TfchPK6+j/uUZZ1fDLDPWFcX/KE65f0c8zRLfLhpq27h3ZFlA0T93Cv/6SP',
+  'T+GxKBYfoEZctMCd8AsJuWvgIsyBPQkX6pUNOlxUn8302Ivq4Oe5MHK5zIkzy4rJkQY6XNXnzPEAutcm2hwtCZ/S',
+  'fLeLM+1Me66W1+1bad12CPHWe12Gw3y0wO6utcwUPbZbU4e5kPeSM+vaAu32a8XHb5LCQ59X64BfpT9H+mbHPaTY',
+  'NMquAEsaKZz8D6ocKjzFJNFaeHpo6C2IRqshdV9hVleYsKa1r49Qv/b6GQXKkHRuEpfVENE51x/SM7IAS6sIGc06',
+  'GhlgLufGvU4EeT5W/KJEl4M0hnode+/d5P7txf+HUa72ygOhY4jiqDjsQ4RSH42GXtBCWfacK2mEEp2K8wlzAe8L',
+  'KQ2il14PmqC98hT1bkSzyPPjiJyYt1CjUeXUedPeWgef4xMvXdmHzowPFB9/t+DQz4iMvN53Ny1vEme4eozrIYTr',
+  'D9131pVS0FPsYe2qty7XNNyg1bfXVWFkL7OJBG3EyeR4LOT9xBjnn5KOhPmnFfkg37XNc0wpyUwbNnJCCMlUoncA',
+  'wPsQ+aCWNmuIumEMI5m6bgrVK6BqKWSDkcuGlonSTZC/G4SwPw8j4SJSXYmDkKJJmeWjS7o2RT++mYIMmv0utIme',
+  'S76+X9H4VgNUXyFHv8LJVFz4k/+9h/U6ST0m7JJ7nxJZ3sjzlQ4/0vjxNICMDGCJQljAo1DZBWFwTV6PTKQsPiYE',
+  'p/XUmQM5FpvDVVfVxE3ipeSe6sViI+VJvwN0njRWwYO98kj9luYVmvBuVjaU39J+oWG9U4RVXr8+dKjVVF8BVaL2',
+  '9F3waDodw70KapcF89+HZ/P5kSN/YyWgFd5w7/vT4cP2/n3mstz7E5gG1rj3+/7g3jcO2/uk+ZFXnL6BUkwKKvcc',
+  'BgYdDUsGvStbP1STIXEAuIuQz4Sfa851Hp6NYSbNRSapjtIO1B4WiJYevXWnJHGklgrd9rqvFXcNNFvuixuKP5Jo',
+  'jdpkvTXzV//syv1Rh9CkEkW9kuHFlBSnEl0k2SWqNR81tW28il0mpaMh977Glk6n1ZFEnZSI1oZVOraem4TOGhrK',
+  'loeGIuyznK1HTXb2HZvUd+9rbFek02mp6mTZOfmB/CMnqEW0HgXr1Dg9y6wUe2vyj6g0+n5VHwfz4sdvOopemYic',
+  'Kr5vvPd2hdbIGMuYMFRJjTFVXAvLcMvzUD4YezUo+fUpVYLLB48oAsIk3GWFnMukGuGD33qkeov9JSkTFZE8hU9P',
+  's8p6LFHJ0cdUqTk5Uswukuj8pm7+t6TTabVh2Ll1Q948Dd11Lqm1sbvWsKvpdIg1GbmTvF9vXe75SUj99AU/+bbn',
+  'wV+GhA9MgMtRSPmg+jGA++w51EexGFy0RIWoC3NY4h9rYudmRW+FUHZadFdbjFZ8a7/zjNw/9e1vlV9K/Jk++29Y',
+  '8JWdFKPsgJ+qc4v98uhHrD7Lwq3pKUMaqIfKEKytc3ApN0raW1THS2b4TdfnoURrujpVD+cdBqAcXiXDkhldr49+',
+  '/+NpZes0Pf/05Oj0UL9USvqlHr2bMhWVXyrMfqkUIjzeT79KQoIW7U3peSqwX8p8LkQ81CK/1IBa3V7s1I/boBdj',
+  '/mvlDqjFfIVl9ks9SWi1Oo/dW9MG//Hr4x33tWJVbyh+0ZuOyJN/cIc8+ed81VwGOvn3A3QMpVRxsyT5Niukt6TU',
+  'gX2iMKJTcjURdQYORUSn5DUlOqX7iE7Jfzq8THZZSp3RppzAAPxenCNfcA4ceJpQO0Bti9QkXnRnxA0qHj/y5ZvL',
+  'QbzpiP9B8qIE4MOm1CACcDc8+7BE5s+E2ERIp0K6JYkC7B0JsMB2SyqfzKyPjk4DflqURdTO5WPHBecrdxFx+eHf',
+  'hPDcTkQSY3U7xprPJMe2nc+oFU8COP/Cmo9e6o07uQKrkeO4gaul00+A+EL6Zzw6Km8Tq6jaQAe7pXz4wlU+/wW3',
+  'Xt3CFdrwEQ5CLR0LSqezy2nSBIHPHubzBSefz4eOvZeTQ4Mcqu/jIsJB+IWKI1PFPqmVbiicDvop6lJC+NIDrdGC',
+  'XEQaf6fMzAwjxcZVaCYjD0eWwxfJKi5InbsIrQFYOkfqUhvfs4KX1pumjXzhP+qsEExLkZoR5rRQcXcq597naH8d',
+  '/dfn6LSP4bK+WeakkmOaunKr0uBPqEkCa4eYyjTxwsSoypUp6Ho3YrSs2Ymb5xYEYEZeOR2Y6XtV+POKHeaMnmBG',
+  '567uVum3XkiplNw2iOHvJm2J4W/9dOAh0BnRjT/KF/NACa0sD6QCTkUMl4Swd3cuOCKDNWWne2bMARPzT+eik6Mp',
+  'zMkYXMyMDH4LFdKeSiHcvYiqVdCpiQ4HaOnRYJNFbzBvuExq7b763J6VvKj0I3rv3aEKwFKFYsoVjaKYN6w5YUjl',
+  'PVoLdUrXSRtM6N+IMss6KW8tJ9z5YFEcTleDoGLXhrVgz6kAYSoqNYnksiqH7EU9lI4UkZJ6Pq5zTu6UPaINxWV9',
+  '5ZoVbO/TDjvnTh0rwt0uM8JQ8FNlZCom1SV/lGBEqTQkp4lyZC4Y/p6EDDENVvXe74aQ2vttMKL2vgFT/fqX5+b0',
+  'D1dFl/SPWXVzZnAbZxB7OMdVpszLuJBbAGOyIflA1wla87BOiu3X71SsHt/R9EX1yQSXsMqZIGoLYPKL6SaDasXU',
+  'yyX417I+xbWP3Brcw3y/faL3d8GXDq3yEKlHTW5/vlm9TC522Q3wuB4rJ9cuNoYrzeNGBffX5qY5wi8XJpC31bm6',
+  'dmWc4w8xWI57Bp6zHd1jUoXZEx+LOw83KXTYeRu/Er0axk4uAir+5Jjymq5jw+JU/7LhCwNdd7hh5h16DW8j/etv',
+  'bRazIfEqNhLrMnjdNFo3/deaPl7k0svosnvsc/l7mnQ0bayBZ1SB09FqqOG7x/9cd8w8D/5BHkMFFXA1HL1nnC+o',
+  'FbhkhZsKHl3v+C9kodRNsuTU/q3Xoyp07zstqgbRMSJr9Y7IU7TG0IrNHPl/',
+].join('');
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview PNG share cards for `lastgen serve`, since X, Slack and most other link
+ * previews don't show SVG. Draws the rows of card.ts with the bitmap glyphs of card-font.ts
+ * and encodes the image with node:zlib, so serving cards needs no image library.
+ */
+
+import { Buffer } from 'node:buffer';
+import { crc32, deflateSync, inflateRawSync } from 'node:zlib';
+
+import type { Certificate, EraPolicy } from './core/types.ts';
+import {
+  CARD_BACKGROUND,
+  CARD_FONT_SIZE,
+  CARD_HEIGHT,
+  CARD_LINE_HEIGHT,
+  CARD_WIDTH,
+  layoutShareCard,
+} from './core/card.ts';
+import {
+  FIRST_GLYPH,
+  GLYPH_ADVANCE,
+  GLYPH_ASCENT,
+  GLYPH_DATA,
+  GLYPH_HEIGHT,
+  GLYPH_WIDTH,
+  LAST_GLYPH,
+} from './card-font.ts';
+
+type Rgb = [number, number, number];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let glyphs: Buffer | undefined;
+
+/** Coverage of every glyph, 0 to 15 per pixel, unpacked on first use. */
+function getGlyphs(): Buffer {
+  if (!glyphs) {
+    const packed = inflateRawSync(Buffer.from(GLYPH_DATA, 'base64'));
+    glyphs = Buffer.alloc(packed.length * 2);
+    for (let i = 0; i < packed.length; i++) {
+      const byte = packed[i] ?? 0;
+      glyphs[i * 2] = byte >> 4;
+      glyphs[i * 2 + 1] = byte & 0x0f;
+    }
+  }
+  return glyphs;
+}
+
+function parseColor(hex: string): Rgb {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? [...digits].map((digit) => digit + digit).join('') : digits;
+  return [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16)) as Rgb;
+}
+
+/**
+ * Blends one glyph into the RGB `pixels` with its top-left corner at (`x`, `y`). Accented
+ * letters, as in display names, lose their accents; other non-ASCII characters become `?`.
+ */
+function drawGlyph(pixels: Buffer, char: string, x: number, y: number, color: Rgb): void {
+  const code = char.normalize('NFD').charCodeAt(0);
+  const index = (code >= FIRST_GLYPH && code <= LAST_GLYPH ? code : 63) - FIRST_GLYPH;
+  const cell = getGlyphs().subarray(
+    index * GLYPH_WIDTH * GLYPH_HEIGHT,
+    (index + 1) * GLYPH_WIDTH * GLYPH_HEIGHT,
+  );
+
+  for (let row = 0; row < GLYPH_HEIGHT; row++) {
+    const py = y + row;
+    if (py < 0 || py >= CARD_HEIGHT) continue;
+    for (let column = 0; column < GLYPH_WIDTH; column++) {
+      const px = x + column;
+      const alpha = (cell[row * GLYPH_WIDTH + column] ?? 0) / 15;
+      if (alpha === 0 || px < 0 || px >= CARD_WIDTH) continue;
+      const offset = (py * CARD_WIDTH + px) * 3;
+      for (let channel = 0; channel < 3; channel++) {
+        const current = pixels[offset + channel] ?? 0;
+        pixels[offset + channel] = Math.round(current + ((color[channel] ?? 0) - current) * alpha);
+      }
+    }
+  }
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 8-bit RGB PNG of `pixels`, CARD_WIDTH x CARD_HEIGHT, rows unfiltered. */
+function encodePng(pixels: Buffer): Buffer {
+  const stride = CARD_WIDTH * 3;
+  const raw = Buffer.alloc((stride + 1) * CARD_HEIGHT);
+  for (let row = 0; row < CARD_HEIGHT; row++) {
+    pixels.copy(raw, row * (stride + 1) + 1, row * stride, (row + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(CARD_WIDTH, 0);
+  header.writeUInt32BE(CARD_HEIGHT, 4);
+  header[8] = 8;
+  header[9] = 2;
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * The share card of renderShareCardSvg as PNG. Bold text is drawn twice, a pixel apart.
+ * `policy` is a custom era policy the certificate may name.
+ */
+export function renderShareCardPng(cert: Certificate, policy?: EraPolicy): Buffer {
+  const rows = layoutShareCard(cert, policy);
+  const pixels = Buffer.alloc(CARD_WIDTH * CARD_HEIGHT * 3);
+  const background = parseColor(CARD_BACKGROUND);
+  for (let offset = 0; offset < pixels.length; offset += 3) {
+    pixels.set(background, offset);
+  }
+
+  const columns = rows[0]?.reduce((total, [text]) => total + text.length, 0) ?? 0;
+  const left = Math.round((CARD_WIDTH - columns * GLYPH_ADVANCE) / 2);
+  const top = (CARD_HEIGHT - rows.length * CARD_LINE_HEIGHT) / 2 + CARD_FONT_SIZE;
+  rows.forEach((spans, index) => {
+    const y = Math.round(top + index * CARD_LINE_HEIGHT) - GLYPH_ASCENT;
+    let x = left;
+    for (const [text, hex, bold] of spans) {
+      const color = parseColor(hex);
+      for (const char of text) {
+        if (char !== ' ') {
+          drawGlyph(pixels, char, x, y, color);
+          if (bold) drawGlyph(pixels, char, x + 1, y, color);
+        }
+        x += GLYPH_ADVANCE;
+      }
+    }
+  });
+
+  return encodePng(pixels);
+}
@@ -4,12 +4,64 @@
 
 import { parseArgs } from 'node:util';
 import { createRequire } from 'node:module';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
 
-import { fetchFirstCommit, fetchUser } from './core/github.ts';
-import { createCertificate } from './core/proof.ts';
+import type { Certificate, EraPolicy, ForgeKind, TrustScore } from './core/types.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import type { BadgeStyle } from './core/badge.ts';
+import type { RetryPolicy } from './core/retry.ts';
+import { FORGE_KINDS, createForgeProvider, isForgeKind } from './core/forge.ts';
+import { DEFAULT_RETRY_POLICY } from './core/retry.ts';
+import { BADGE_STYLES, isBadgeStyle, renderBadgeSvg } from './core/badge.ts';
+import { renderShareCardSvg } from './core/card.ts';
+import { encodeCertificateLink } from './core/share-link.ts';
+import { createLocalCertificate, signCertificate } from './core/proof.ts';
+import { migrateCertificate } from './core/migrate.ts';
+import { formatSchemaErrors, validateCertificate } from './core/schema.ts';
+import { lookupCertificate } from './core/lookup.ts';
+import { scoreSnapshotTrust } from './core/trust.ts';
+import { buildCensus } from './core/census.ts';
+import type { BatchEntry } from './batch.ts';
+import {
+  formatBatchCsv,
+  formatBatchJson,
+  formatBatchTable,
+  readUsernames,
+  runBatch,
+  toBatchRow,
+} from './batch.ts';
+import type { Scheduler } from './scheduler.ts';
+import { createScheduler } from './scheduler.ts';
+import { clearCache, createCachedFetch, readCacheStats, resolveCacheDir } from './http-cache.ts';
+import type { ConfigKey, LastgenConfig } from './config.ts';
+import {
+  CONFIG_KEY_NAMES,
+  PROJECT_CONFIG_FILE,
+  formatConfigValue,
+  isConfigKey,
+  loadConfig,
+  readPolicy,
+  setConfigValue,
+  unsetConfigValue,
+  userConfigPath,
+} from './config.ts';
 import { nodeHash } from './hash.ts';
-import { displayBadgeMarkdown, displayCertificate, displayJson, error, info } from './display.ts';
-import { verifyCertificate } from './verify-cli.ts';
+import { findToken, getGitHubHost } from './token.ts';
+import { nodeLinkCodec } from './link-codec.ts';
+import { createLocalRepoReader, readLocalHistory } from './local-git.ts';
+import { generateIssuerKeyPair, loadSigner, nodeVerifySignature } from './sign.ts';
+import {
+  displayBadgeMarkdown,
+  displayCensus,
+  displayCertificate,
+  displayJson,
+  error,
+  info,
+  style,
+} from './display.ts';
+import { VERIFY_EXIT_CODES, verifyCertificate } from './verify-cli.ts';
+import { VERIFY_FORMATS, isVerifyFormat } from './verify-format.ts';
 import { serve } from './serve.ts';
 
 const require = createRequire(import.meta.url);
@@ -36,76 +88,309 @@ const HELP_BRIEF = `
   Check if you started coding before or after AI agents.
 
   Usage:
-    lastgen <username>                Classify a GitHub user
-    lastgen verify <file.json>        Verify a saved certificate
-    lastgen serve [--port <port>]     Launch web UI
+    lastgen <username>                Classify a GitHub, GitLab or Gitea user
+    lastgen local <path> --email <e>  Classify from a local git clone
+    lastgen verify <file.json|url>    Verify a saved certificate or share link
+    lastgen migrate <file.json>       Upgrade a certificate to the current format
+    lastgen serve [--port <port>]     Launch web UI, badges, JSON API and GitHub proxy
+    lastgen keygen [--out <file>]     Generate an Ed25519 issuer key
+    lastgen batch <users.txt>         Classify every user in a file, one per line
+    lastgen org <org>                 Era census of an organization's public members
+    lastgen repo <owner/name>         Era census of a repository's contributors
+    lastgen cache stats|clear         Show or delete cached API responses
+    lastgen config get|set|unset|list Show or edit defaults in the config file
 
   Options:
-    --token <token>       GitHub personal access token
+    --token <token>       Personal access token for the forge
+    --forge <forge>       Forge to look up: github, gitlab, gitea (default: github)
+    --api-url <url>       Instance URL for GitHub Enterprise or Gitea (required for gitea)
     --json                Output as JSON
+    --csv                 Output batch results as CSV
     --badge               Output as README badge markdown
+    --badge-svg           Output as a self-hosted SVG badge
+    --badge-style <style> SVG badge style: flat, for-the-badge (default: for-the-badge)
+    --badge-year          Show the proof year on the SVG badge
+    --badge-number        Show the certificate number on the SVG badge
+    --image <file.svg>    Also write a 1200x630 share card image
+    --link                Output a share link with the certificate in the URL
+    --policy <policy>     Era policy: default, tiered or a policy JSON file (default: default)
+    --evidence <n>        Back the proof with the earliest commits in n distinct repos
+    --quorum <k>          Evidence commits needed to back the proof date (default: majority)
+    --embed-evidence      Embed account, repo and commit data for offline verification
+    --offline             Verify without network access, against embedded evidence
+    --format <fmt>        Verify report format: text, json, tap, junit (default: text)
     --port <port>         Port for web UI (default: 3000)
+    --host <host>         Interface for web UI (default: 127.0.0.1); clients use your token
+    --email <email>       Author email to match in local mode (repeatable)
+    --name <name>         Developer name for local mode (default: commit author)
+    --repo <path>         Local clone to check a local-git certificate against
+    --sign-key <file>     Sign the certificate with an issuer key
+    --trusted-key <key>   Trusted issuer public key or .pub file (repeatable)
+    --out <path>          Key file for keygen (default: lastgen-issuer.key),
+                          certificate directory for batch (default: lastgen-certificates),
+                          output file for migrate (default: stdout)
+    --concurrency <n>     Users looked up at once in batch mode (default: 4)
+    --retries <n>         Retries after network errors, 5xx and secondary rate limits (default: 3)
+    --wait-for-rate-limit Sleep until an exhausted rate limit resets instead of failing
+    --no-cache            Skip the on-disk API response cache
+    --team <slug>         Census one team of the organization (needs a token)
+    --project             Edit the project's .lastgenrc with config set|unset
+    --verbose             Say where the token came from
     --no-color            Disable colors
     -h, --help            Show this help
     -v, --version         Show version
 
   Environment:
     GITHUB_TOKEN          GitHub token (alternative to --token)
+    GH_TOKEN              GitHub token, as used by the gh CLI (after GITHUB_TOKEN)
+    GH_CONFIG_DIR         gh CLI config directory with hosts.yml (default: ~/.config/gh)
+    GITHUB_API_URL        GitHub Enterprise API URL (alternative to --api-url)
+    GITLAB_TOKEN          GitLab token (alternative to --token with --forge gitlab)
+    GITEA_TOKEN           Gitea token (alternative to --token with --forge gitea)
+    XDG_CACHE_HOME        Cache directory base (default: ~/.cache)
+    XDG_CONFIG_HOME       Config directory base (default: ~/.config)
     NO_COLOR              Disable colors (any value)
 
   Examples:
     npx lastgen torvalds
     npx lastgen --json torvalds > proof.json
     npx lastgen verify proof.json
+    npx lastgen verify --offline proof.json
+    npx lastgen verify --format junit proof.json > lastgen.xml
+    npx lastgen migrate old.json --out proof.json
     npx lastgen --badge torvalds
+    npx lastgen --badge-svg --badge-style flat --badge-year torvalds > badge.svg
+    npx lastgen --image card.svg torvalds
+    npx lastgen --link torvalds
+    npx lastgen verify "https://pgagnidze.github.io/lastgen/#cert=..."
+    npx lastgen --evidence 5 --quorum 3 torvalds
+    npx lastgen --policy tiered torvalds
+    npx lastgen verify --policy acme-eras.json proof.json
+    npx lastgen --forge gitlab --token "$GITLAB_TOKEN" gitlab-user
+    npx lastgen --api-url https://ghe.example.com octocat
+    npx lastgen --forge gitea --api-url https://git.example.com alice
     npx lastgen serve
+    npx lastgen local ~/src/app --email me@example.com
+    npx lastgen keygen --out issuer.key
+    npx lastgen batch candidates.txt --csv > eras.csv
+    npx lastgen config set policy tiered
+    npx lastgen config set --project trustedKeys issuer.key.pub
+    npx lastgen org nodejs --team tsc
+    npx lastgen repo nodejs/node
+    npx lastgen --json --sign-key issuer.key torvalds > proof.json
+    npx lastgen verify --trusted-key issuer.key.pub proof.json
 `;
 
+const SUBCOMMANDS = new Set([
+  'verify',
+  'serve',
+  'keygen',
+  'local',
+  'batch',
+  'org',
+  'repo',
+  'cache',
+  'config',
+  'migrate',
+]);
+const DEFAULT_KEY_FILE = 'lastgen-issuer.key';
+const DEFAULT_BATCH_DIR = 'lastgen-certificates';
+const DEFAULT_CONCURRENCY = 4;
+
 interface CliOptions {
   command: string;
   target: string;
+  /** Positionals after the target, e.g. `<key> <value>` for `config set`. */
+  args: string[];
+  /** Defaults from config files; see config.ts. */
+  config: LastgenConfig;
   token?: string;
+  forge: ForgeKind;
+  apiUrl?: string;
+  evidence?: number;
+  quorum?: number;
+  embedEvidence: boolean;
+  offline: boolean;
+  format?: string;
   port: number;
+  host?: string;
+  project: boolean;
+  emails: string[];
+  name?: string;
+  repo?: string;
+  signKey?: string;
+  trustedKeys: string[];
+  out?: string;
+  concurrency: number;
+  retries: number;
+  waitForRateLimit: boolean;
+  cache: boolean;
+  team?: string;
   json: boolean;
+  csv: boolean;
   badge: boolean;
+  badgeSvg: boolean;
+  badgeStyle: BadgeStyle;
+  badgeYear: boolean;
+  badgeNumber: boolean;
+  image?: string;
+  link: boolean;
+  /** --policy or the configured policy, read into `policy` by the commands that classify eras. */
+  policyValue?: string;
+  policy?: EraPolicy;
+  verbose: boolean;
   help: boolean;
   version: boolean;
 }
 
-export function parseCli(argv: string[]): CliOptions {
+/** Flags win over `config`, which fills in what they leave unset. */
+export function parseCli(argv: string[], config: LastgenConfig = {}): CliOptions {
   const { values, positionals } = parseArgs({
     args: argv,
     options: {
       token: { type: 'string' },
+      forge: { type: 'string' },
+      'api-url': { type: 'string' },
       json: { type: 'boolean', default: false },
+      csv: { type: 'boolean', default: false },
+      concurrency: { type: 'string' },
+      retries: { type: 'string' },
+      'wait-for-rate-limit': { type: 'boolean', default: false },
+      'no-cache': { type: 'boolean', default: false },
+      team: { type: 'string' },
       badge: { type: 'boolean', default: false },
+      'badge-svg': { type: 'boolean', default: false },
+      'badge-style': { type: 'string' },
+      'badge-year': { type: 'boolean', default: false },
+      'badge-number': { type: 'boolean', default: false },
+      image: { type: 'string' },
+      link: { type: 'boolean', default: false },
+      policy: { type: 'string' },
+      evidence: { type: 'string' },
+      quorum: { type: 'string' },
+      'embed-evidence': { type: 'boolean', default: false },
+      offline: { type: 'boolean', default: false },
+      format: { type: 'string' },
       port: { type: 'string' },
+      host: { type: 'string' },
+      project: { type: 'boolean', default: false },
+      email: { type: 'string', multiple: true },
+      name: { type: 'string' },
+      repo: { type: 'string' },
+      'sign-key': { type: 'string' },
+      'trusted-key': { type: 'string', multiple: true },
+      out: { type: 'string' },
       help: { type: 'boolean', short: 'h', default: false },
       version: { type: 'boolean', short: 'v', default: false },
+      verbose: { type: 'boolean', default: false },
       'no-color': { type: 'boolean', default: false },
     },
     allowPositionals: true,
     strict: false,
   });
 
+  const forgeValue = (values.forge as string | undefined) ?? config.forge ?? 'github';
+  if (!isForgeKind(forgeValue)) {
+    throw new Error(`Unknown forge: ${forgeValue}. Expected one of: ${FORGE_KINDS.join(', ')}`);
+  }
+  const forge = forgeValue;
+
+  const badgeStyle = (values['badge-style'] as string | undefined) ?? 'for-the-badge';
+  if (!isBadgeStyle(badgeStyle)) {
+    throw new Error(
+      `Unknown badge style: ${badgeStyle}. Expected one of: ${BADGE_STYLES.join(', ')}`,
+    );
+  }
+
+  const image = values.image as string | undefined;
+  if (image !== undefined && !image.toLowerCase().endsWith('.svg')) {
+    throw new Error(
+      '--image writes SVG; give it a .svg file (the web UI downloads the card as PNG)',
+    );
+  }
+
+  const evidence = parseCount(values.evidence, '--evidence');
+  const quorum = parseCount(values.quorum, '--quorum');
+  if (quorum !== undefined && (evidence === undefined || quorum > evidence)) {
+    throw new Error('--quorum needs --evidence and cannot exceed it');
+  }
+
   const first = positionals[0] ?? '';
-  const isVerify = first === 'verify';
-  const isServe = first === 'serve';
+  const isSubcommand = SUBCOMMANDS.has(first);
+
+  // The configured format only applies when no output flag picks one.
+  const outputFlags = ['json', 'csv', 'badge', 'badge-svg', 'link', 'format'];
+  const configFormat = outputFlags.some(
+    (flag) => values[flag] !== undefined && values[flag] !== false,
+  )
+    ? undefined
+    : config.format;
+  const trustedKeys = values['trusted-key'] as string[] | undefined;
 
   return {
-    command: isVerify ? 'verify' : isServe ? 'serve' : first ? 'lookup' : '',
-    target: isVerify ? (positionals[1] ?? '') : first,
-    token: (values.token as string | undefined) ?? process.env['GITHUB_TOKEN'],
-    port: Number(values.port) || 3000,
-    json: Boolean(values.json),
+    command: isSubcommand ? first : first ? 'lookup' : '',
+    target: isSubcommand ? (positionals[1] ?? '') : first,
+    args: positionals.slice(isSubcommand ? 2 : 1),
+    config,
+    token: values.token as string | undefined,
+    forge,
+    apiUrl: values['api-url'] as string | undefined,
+    evidence,
+    quorum,
+    embedEvidence: Boolean(values['embed-evidence']),
+    offline: Boolean(values.offline),
+    format: (values.format as string | undefined) ?? configFormat,
+    port: Number(values.port) || config.port || 3000,
+    host: (values.host as string | undefined) ?? config.host,
+    project: Boolean(values.project),
+    emails: (values.email as string[] | undefined) ?? [],
+    name: values.name as string | undefined,
+    repo: values.repo as string | undefined,
+    signKey: values['sign-key'] as string | undefined,
+    trustedKeys: trustedKeys ?? config.trustedKeys ?? [],
+    out: values.out as string | undefined,
+    concurrency: parseCount(values.concurrency, '--concurrency') ?? DEFAULT_CONCURRENCY,
+    retries: parseCount(values.retries, '--retries', 0) ?? DEFAULT_RETRY_POLICY.retries,
+    waitForRateLimit: Boolean(values['wait-for-rate-limit']),
+    cache: !values['no-cache'] && config.cache !== false,
+    team: values.team as string | undefined,
+    json: Boolean(values.json) || configFormat === 'json',
+    csv: Boolean(values.csv),
     badge: Boolean(values.badge),
+    badgeSvg: Boolean(values['badge-svg']),
+    badgeStyle,
+    badgeYear: Boolean(values['badge-year']),
+    badgeNumber: Boolean(values['badge-number']),
+    image,
+    link: Boolean(values.link),
+    policyValue: (values.policy as string | undefined) ?? config.policy,
+    verbose: Boolean(values.verbose),
     help: Boolean(values.help),
     version: Boolean(values.version),
   };
 }
 
+function parseCount(
+  value: string | boolean | undefined,
+  flag: string,
+  min = 1,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`${flag} must be a ${min > 0 ? 'positive' : 'non-negative'} integer`);
+  }
+  return count;
+}
+
+const POLICY_COMMANDS = new Set(['lookup', 'local', 'verify', 'serve', 'batch', 'org', 'repo']);
+
 export async function run(argv: string[]): Promise<void> {
-  const opts = parseCli(argv);
+  // `config set` and `unset` must work while the config they would fix is broken.
+  const flagsOnly = parseCli(argv);
+  const isConfigEdit =
+    flagsOnly.command === 'config' && ['set', 'unset'].includes(flagsOnly.target);
+  const opts = isConfigEdit ? flagsOnly : parseCli(argv, loadConfig().config);
 
   if (opts.version) {
     process.stdout.write(VERSION + '\n');
@@ -117,17 +402,53 @@ export async function run(argv: string[]): Promise<void> {
     return;
   }
 
+  if (POLICY_COMMANDS.has(opts.command) && opts.policyValue !== undefined) {
+    opts.policy = readPolicy(opts.policyValue);
+  }
+
   switch (opts.command) {
     case 'lookup': {
       await handleLookup(opts);
       break;
     }
+    case 'local': {
+      await handleLocal(opts);
+      break;
+    }
     case 'verify': {
       await handleVerify(opts);
       break;
     }
     case 'serve': {
-      serve(opts.port);
+      await handleServe(opts);
+      break;
+    }
+    case 'batch': {
+      await handleBatch(opts);
+      break;
+    }
+    case 'org': {
+      await handleOrg(opts);
+      break;
+    }
+    case 'repo': {
+      await handleRepoCensus(opts);
+      break;
+    }
+    case 'keygen': {
+      handleKeygen(opts);
+      break;
+    }
+    case 'cache': {
+      handleCache(opts);
+      break;
+    }
+    case 'config': {
+      handleConfig(opts);
+      break;
+    }
+    case 'migrate': {
+      await handleMigrate(opts);
       break;
     }
     default: {
@@ -138,6 +459,63 @@ export async function run(argv: string[]): Promise<void> {
   }
 }
 
+/**
+ * Explicit --api-url wins; GitHub also honours GITHUB_API_URL, as set by GitHub Actions.
+ * The configured apiUrl applies only to the configured forge.
+ */
+function resolveApiUrl(opts: CliOptions, forge: ForgeKind): string | undefined {
+  if (opts.apiUrl) return opts.apiUrl;
+  if (forge === 'github' && process.env.GITHUB_API_URL) return process.env.GITHUB_API_URL;
+  return forge === (opts.config.forge ?? 'github') ? opts.config.apiUrl : undefined;
+}
+
+/** Retry settings from --retries and --wait-for-rate-limit. Pauses are reported on stderr. */
+function resolveRetryPolicy(opts: CliOptions): RetryPolicy {
+  return { retries: opts.retries, waitForRateLimit: opts.waitForRateLimit, onRetry: info };
+}
+
+/** Fetch backed by the on-disk cache, or undefined for the plain global fetch with --no-cache. */
+function resolveFetch(opts: CliOptions): typeof fetch | undefined {
+  return opts.cache ? createCachedFetch(resolveCacheDir(opts.config.cacheDir)) : undefined;
+}
+
+/** First token in the chain of token.ts for the forge being queried. --verbose names its source. */
+function resolveToken(opts: CliOptions, forge: ForgeKind): string | undefined {
+  const found = findToken({
+    forge,
+    flag: opts.token,
+    host: forge === 'github' ? getGitHubHost(resolveApiUrl(opts, forge)) : undefined,
+  });
+  if (opts.verbose) {
+    info(
+      found
+        ? `Using ${forge} token from ${found.source}`
+        : `No ${forge} token found; requests are anonymous`,
+    );
+  }
+  return found?.token;
+}
+
+async function handleServe(opts: CliOptions): Promise<void> {
+  const token = resolveToken(opts, opts.forge);
+  const fetchFn = resolveFetch(opts);
+  const provider = createForgeProvider(opts.forge, {
+    token,
+    apiUrl: resolveApiUrl(opts, opts.forge),
+    fetch: fetchFn,
+    retry: resolveRetryPolicy(opts),
+  });
+  serve(opts.port, {
+    host: opts.host,
+    provider,
+    signer: opts.signKey ? await loadSigner(opts.signKey) : undefined,
+    trustedKeys: opts.trustedKeys.map(readTrustedKey),
+    policy: opts.policy,
+    githubProxy:
+      provider.kind === 'github' ? { apiUrl: provider.apiUrl, token, fetch: fetchFn } : undefined,
+  });
+}
+
 async function handleLookup(opts: CliOptions): Promise<void> {
   if (!opts.target) {
     error('Username required. Usage: lastgen <username>');
@@ -145,35 +523,467 @@ async function handleLookup(opts: CliOptions): Promise<void> {
     return;
   }
 
-  if (!opts.json && !opts.badge) {
-    info(`Looking up ${opts.target} on GitHub...`);
+  const provider = createForgeProvider(opts.forge, {
+    token: resolveToken(opts, opts.forge),
+    apiUrl: resolveApiUrl(opts, opts.forge),
+    fetch: resolveFetch(opts),
+    retry: resolveRetryPolicy(opts),
+  });
+
+  if (!isQuiet(opts)) {
+    info(`Looking up ${opts.target} on ${provider.name}...`);
+  }
+
+  const quiet = isQuiet(opts);
+  const cert = await lookupCertificate(nodeHash, provider, opts.target, {
+    signer: opts.signKey ? await loadSigner(opts.signKey) : undefined,
+    evidence: opts.evidence,
+    quorum: opts.quorum,
+    embedEvidence: opts.embedEvidence,
+    policy: opts.policy,
+    onStatus: quiet ? undefined : info,
+  });
+  const trust = quiet ? null : scoreSnapshotTrust(cert, provider.matchesNoreplyEmail);
+  await outputCertificate(cert, opts, trust);
+}
+
+async function handleBatch(opts: CliOptions): Promise<void> {
+  if (!opts.target) {
+    error('Username file required. Usage: lastgen batch <users.txt>');
+    process.exitCode = 2;
+    return;
+  }
+
+  const usernames = readUsernames(opts.target);
+  const { provider, scheduler } = createBatchProvider(opts);
+  if (!isBatchQuiet(opts)) {
+    info(`Looking up ${usernames.length} users on ${provider.name}...`);
+  }
+
+  const entries = await lookupUsers(usernames, provider, scheduler, opts);
+
+  if (opts.json) {
+    process.stdout.write(formatBatchJson(entries));
+  } else if (opts.csv) {
+    process.stdout.write(formatBatchCsv(entries));
+  } else {
+    process.stdout.write(formatBatchTable(entries, opts.policy));
+    info(`Certificates written to ${opts.out ?? DEFAULT_BATCH_DIR}`);
+  }
+
+  if (entries.some((entry) => entry.error)) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleOrg(opts: CliOptions): Promise<void> {
+  if (!opts.target) {
+    error('Organization required. Usage: lastgen org <org> [--team <slug>]');
+    process.exitCode = 2;
+    return;
+  }
+
+  const { provider, scheduler } = createBatchProvider(opts);
+  if (!provider.fetchOrgMembers) {
+    throw new Error(`Organization census is not supported for ${provider.name}.`);
+  }
+
+  const group = opts.team ? `${opts.target}/${opts.team}` : opts.target;
+  const members = await provider.fetchOrgMembers(opts.target, opts.team);
+  if (!isBatchQuiet(opts)) {
+    const kind = opts.team ? 'team members' : 'public members';
+    info(`Found ${members.length} ${kind} in ${group} on ${provider.name}...`);
+  }
+
+  const entries = await lookupUsers(members, provider, scheduler, opts);
+  const census = buildCensus(entries, opts.policy);
+
+  if (opts.json) {
+    const report = { org: opts.target, team: opts.team, census, members: entries.map(toBatchRow) };
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  } else if (opts.csv) {
+    process.stdout.write(formatBatchCsv(entries));
+  } else {
+    process.stdout.write(formatBatchTable(entries, opts.policy));
+    displayCensus(`Era census: ${group}`, census, opts.policy);
+    info(`Certificates written to ${opts.out ?? DEFAULT_BATCH_DIR}`);
+  }
+
+  if (census.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleRepoCensus(opts: CliOptions): Promise<void> {
+  if (!opts.target.includes('/')) {
+    error('Repository required. Usage: lastgen repo <owner/name>');
+    process.exitCode = 2;
+    return;
+  }
+
+  const { provider, scheduler } = createBatchProvider(opts);
+  if (!provider.fetchContributors) {
+    throw new Error(`Contributor census is not supported for ${provider.name}.`);
+  }
+
+  const contributors = await provider.fetchContributors(opts.target);
+  const users = contributors.filter((c) => c.kind === 'user');
+  if (!isBatchQuiet(opts)) {
+    const others = contributors.length - users.length;
+    info(
+      `Found ${contributors.length} contributors to ${opts.target} on ${provider.name} (${others} bots or anonymous skipped)...`,
+    );
+  }
+
+  const entries = await lookupUsers(
+    users.map((c) => c.login ?? c.name),
+    provider,
+    scheduler,
+    opts,
+  );
+  const census = buildCensus(
+    [
+      ...entries.map((entry, index) => ({ ...entry, weight: users[index]?.contributions ?? 0 })),
+      ...contributors
+        .filter((c) => c.kind !== 'user')
+        .map((c) => ({
+          username: c.name,
+          weight: c.contributions,
+          skipped: c.kind === 'bot' ? ('bot' as const) : ('anonymous' as const),
+        })),
+    ],
+    opts.policy,
+  );
+
+  if (opts.json) {
+    const rows = entries.map((entry, index) => ({
+      ...toBatchRow(entry),
+      contributions: users[index]?.contributions ?? 0,
+    }));
+    const report = { repo: opts.target, census, contributors: rows };
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  } else if (opts.csv) {
+    process.stdout.write(formatBatchCsv(entries));
+  } else {
+    process.stdout.write(formatBatchTable(entries, opts.policy));
+    displayCensus(`Contributor eras: ${opts.target}`, census, opts.policy);
+    info(`Certificates written to ${opts.out ?? DEFAULT_BATCH_DIR}`);
   }
 
-  const [user, firstCommit] = await Promise.all([
-    fetchUser(opts.target, opts.token),
-    fetchFirstCommit(opts.target, opts.token),
-  ]);
+  if (census.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
 
-  const cert = await createCertificate(nodeHash, user, firstCommit);
+function isBatchQuiet(opts: CliOptions): boolean {
+  return opts.json || opts.csv;
+}
 
-  if (opts.badge) {
+/** Provider whose requests all go through one rate-limit-aware scheduler. */
+function createBatchProvider(opts: CliOptions): { provider: ForgeProvider; scheduler: Scheduler } {
+  const scheduler = createScheduler({
+    concurrency: opts.concurrency,
+    fetch: resolveFetch(opts),
+    onWait: (resource, resumeAt) =>
+      info(
+        `Rate limit nearly spent (${resource}); pausing until ${resumeAt.toLocaleTimeString()}...`,
+      ),
+  });
+  const provider = createForgeProvider(opts.forge, {
+    token: resolveToken(opts, opts.forge),
+    apiUrl: resolveApiUrl(opts, opts.forge),
+    fetch: scheduler.fetch,
+    retry: resolveRetryPolicy(opts),
+  });
+  return { provider, scheduler };
+}
+
+async function lookupUsers(
+  usernames: string[],
+  provider: ForgeProvider,
+  scheduler: Scheduler,
+  opts: CliOptions,
+): Promise<BatchEntry[]> {
+  return runBatch(usernames, provider, scheduler, nodeHash, {
+    signer: opts.signKey ? await loadSigner(opts.signKey) : undefined,
+    evidence: opts.evidence,
+    quorum: opts.quorum,
+    embedEvidence: opts.embedEvidence,
+    policy: opts.policy,
+    outDir: opts.out ?? DEFAULT_BATCH_DIR,
+    onProgress: isBatchQuiet(opts)
+      ? undefined
+      : (entry, done, total) =>
+          info(`[${done}/${total}] ${entry.username}: ${entry.certificate?.era ?? 'failed'}`),
+  });
+}
+
+/** Whether stdout carries JSON, markdown, SVG or a link, so progress messages are left out. */
+function isQuiet(opts: CliOptions): boolean {
+  return opts.json || opts.badge || opts.badgeSvg || opts.link;
+}
+
+async function outputCertificate(
+  cert: Certificate,
+  opts: CliOptions,
+  trust?: TrustScore | null,
+): Promise<void> {
+  if (opts.image) {
+    writeFileSync(opts.image, renderShareCardSvg(cert, opts.policy) + '\n');
+    if (!isQuiet(opts)) info(`Share card written to ${opts.image}`);
+  }
+  if (opts.link) {
+    process.stdout.write((await encodeCertificateLink(cert, nodeLinkCodec)) + '\n');
+  } else if (opts.badgeSvg) {
+    process.stdout.write(
+      renderBadgeSvg(cert, {
+        style: opts.badgeStyle,
+        year: opts.badgeYear,
+        number: opts.badgeNumber,
+        policy: opts.policy,
+      }) + '\n',
+    );
+  } else if (opts.badge) {
     displayBadgeMarkdown(cert);
   } else if (opts.json) {
     displayJson(cert);
   } else {
-    displayCertificate(cert);
+    displayCertificate(cert, trust, opts.policy);
   }
 }
 
+async function handleLocal(opts: CliOptions): Promise<void> {
+  if (!opts.target || opts.emails.length === 0) {
+    error('Repository path and email required. Usage: lastgen local <path> --email <email>');
+    process.exitCode = 2;
+    return;
+  }
+
+  if (!isQuiet(opts)) {
+    info(`Reading git history in ${opts.target}...`);
+  }
+
+  const history = await readLocalHistory(opts.target, opts.emails);
+  if (!history) {
+    error(`No commits by ${opts.emails.join(', ')} found in ${opts.target}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const signer = opts.signKey ? await loadSigner(opts.signKey) : undefined;
+  const cert = await createLocalCertificate(
+    nodeHash,
+    { username: opts.name ?? history.authorName, name: opts.name ? history.authorName : null },
+    history.firstCommit,
+    { kind: 'local-git', emails: opts.emails },
+    { signer, policy: opts.policy },
+  );
+
+  await outputCertificate(cert, opts);
+}
+
 async function handleVerify(opts: CliOptions): Promise<void> {
   if (!opts.target) {
-    error('Certificate file required. Usage: lastgen verify <file.json>');
+    error('Certificate file required. Usage: lastgen verify <file.json|url>');
+    process.exitCode = 2;
+    return;
+  }
+
+  const format = opts.format ?? (opts.json ? 'json' : 'text');
+  if (!isVerifyFormat(format)) {
+    error(`Unknown format: ${format}. Expected one of: ${VERIFY_FORMATS.join(', ')}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const outcome = await verifyCertificate(opts.target, nodeHash, {
+    format,
+    resolveToken: (forge) => resolveToken(opts, forge),
+    resolveApiUrl: (forge) => resolveApiUrl(opts, forge),
+    retry: resolveRetryPolicy(opts),
+    fetch: resolveFetch(opts),
+    offline: opts.offline,
+    localRepo: opts.repo ? createLocalRepoReader(opts.repo) : undefined,
+    trustedKeys: opts.trustedKeys.map(readTrustedKey),
+    verifySignature: nodeVerifySignature,
+    policy: opts.policy,
+  });
+  process.exitCode = VERIFY_EXIT_CODES[outcome];
+}
+
+async function handleMigrate(opts: CliOptions): Promise<void> {
+  if (!opts.target) {
+    error('Certificate file required. Usage: lastgen migrate <file.json> [--out <file>]');
     process.exitCode = 2;
     return;
   }
 
-  const valid = await verifyCertificate(opts.target, nodeHash, opts.token);
-  if (!valid) {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(opts.target, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read certificate JSON from ${opts.target}`, { cause: err });
+  }
+
+  const errors = validateCertificate(data);
+  if (errors.length > 0) {
+    error(`${opts.target} is not a valid lastgen certificate:`);
+    for (const line of formatSchemaErrors(errors)) {
+      error(`  ${line}`);
+    }
     process.exitCode = 1;
+    return;
+  }
+
+  const { certificate, changes } = migrateCertificate(data as Certificate);
+  if (changes.length === 0) {
+    info(`${opts.target} is already version ${certificate.version}; nothing to migrate.`);
+  }
+  for (const change of changes) {
+    info(change);
+  }
+
+  let migrated = certificate;
+  if (opts.signKey) {
+    const signer = await loadSigner(opts.signKey);
+    migrated = await signCertificate(certificate, signer);
+    info(`Signed with key ${signer.keyId}`);
+  } else if ((data as Certificate).verification.signature && !certificate.verification.signature) {
+    info('Pass --sign-key to sign the migrated certificate again.');
+  }
+
+  const json = JSON.stringify(migrated, null, 2) + '\n';
+  if (opts.out) {
+    writeFileSync(opts.out, json);
+    info(`Migrated certificate written to ${opts.out}`);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+function readTrustedKey(value: string): string {
+  return existsSync(value) ? readFileSync(value, 'utf-8').trim() : value.trim();
+}
+
+function handleKeygen(opts: CliOptions): void {
+  const keyPath = opts.out ?? DEFAULT_KEY_FILE;
+  const publicKeyPath = `${keyPath}.pub`;
+
+  if (existsSync(keyPath)) {
+    error(`Refusing to overwrite existing key: ${keyPath}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const { privateKeyPem, publicKey } = generateIssuerKeyPair();
+  writeFileSync(keyPath, privateKeyPem, { mode: 0o600 });
+  writeFileSync(publicKeyPath, publicKey + '\n');
+
+  info(`Private key written to ${keyPath} (keep it secret)`);
+  info(`Public key written to ${publicKeyPath}`);
+  process.stdout.write(publicKey + '\n');
+}
+
+function handleCache(opts: CliOptions): void {
+  const dir = resolveCacheDir(opts.config.cacheDir);
+  switch (opts.target) {
+    case 'stats': {
+      const stats = readCacheStats(dir);
+      if (opts.json) {
+        process.stdout.write(JSON.stringify(stats, null, 2) + '\n');
+        return;
+      }
+      info(`Cache directory: ${stats.dir}`);
+      info(`Entries: ${stats.entries} (${(stats.bytes / 1024).toFixed(1)} KiB)`);
+      info(`Revalidated hits: ${stats.hits}`);
+      if (stats.oldest && stats.newest) {
+        info(`Stored: ${stats.oldest.slice(0, 10)} to ${stats.newest.slice(0, 10)}`);
+      }
+      return;
+    }
+    case 'clear': {
+      const removed = clearCache(dir);
+      info(`Removed ${removed} cached responses from ${dir}`);
+      return;
+    }
+    default: {
+      error('Usage: lastgen cache stats|clear');
+      process.exitCode = 2;
+    }
+  }
+}
+
+const CONFIG_USAGE = 'Usage: lastgen config get <key> | set <key> <value> | unset <key> | list';
+
+function requireConfigKey(key: string): key is ConfigKey {
+  if (isConfigKey(key)) return true;
+  error(`Unknown config key: ${key || '(none)'}. Expected one of: ${CONFIG_KEY_NAMES.join(', ')}`);
+  process.exitCode = 2;
+  return false;
+}
+
+/** `get` and `list` show effective values; `set` and `unset` edit one file. */
+function handleConfig(opts: CliOptions): void {
+  const file = opts.project ? join(process.cwd(), PROJECT_CONFIG_FILE) : userConfigPath();
+  const [key = '', value] = opts.args;
+
+  switch (opts.target) {
+    case 'list': {
+      const { config, sources } = loadConfig();
+      if (opts.json) {
+        process.stdout.write(JSON.stringify(config, null, 2) + '\n');
+        return;
+      }
+      const keys = CONFIG_KEY_NAMES.filter((name) => config[name] !== undefined);
+      if (keys.length === 0) {
+        info(`No defaults set. User config: ${userConfigPath()}`);
+        return;
+      }
+      const width = Math.max(...keys.map((name) => name.length));
+      for (const name of keys) {
+        process.stdout.write(
+          `${name.padEnd(width)}  ${formatConfigValue(config[name])}  ${style('dim', sources[name] ?? '')}\n`,
+        );
+      }
+      return;
+    }
+    case 'get': {
+      if (!requireConfigKey(key)) return;
+      const current = loadConfig().config[key];
+      if (current === undefined) {
+        process.exitCode = 1;
+        return;
+      }
+      process.stdout.write(formatConfigValue(current) + '\n');
+      return;
+    }
+    case 'set': {
+      if (!requireConfigKey(key)) return;
+      if (value === undefined) {
+        error(CONFIG_USAGE);
+        process.exitCode = 2;
+        return;
+      }
+      setConfigValue(file, key, value);
+      info(`Set ${key} in ${file}`);
+      return;
+    }
+    case 'unset': {
+      if (!key) {
+        error(CONFIG_USAGE);
+        process.exitCode = 2;
+        return;
+      }
+      info(
+        unsetConfigValue(file, key)
+          ? `Removed ${key} from ${file}`
+          : `${key} is not set in ${file}`,
+      );
+      return;
+    }
+    default: {
+      error(CONFIG_USAGE);
+      process.exitCode = 2;
+    }
   }
 }
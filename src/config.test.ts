@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+
+import { parseCli } from './cli.ts';
+import {
+  PROJECT_CONFIG_FILE,
+  loadConfig,
+  readConfigFile,
+  setConfigValue,
+  unsetConfigValue,
+  userConfigPath,
+} from './config.ts';
+
+const root = mkdtempSync(join(tmpdir(), 'lastgen-config-'));
+const project = join(root, 'project');
+const nested = join(project, 'packages', 'app');
+process.env.XDG_CONFIG_HOME = join(root, 'xdg');
+after(() => rmSync(root, { recursive: true, force: true }));
+
+function writeJson(path: string, data: unknown): void {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, JSON.stringify(data));
+}
+
+beforeEach(() => {
+  rmSync(process.env.XDG_CONFIG_HOME ?? '', { recursive: true, force: true });
+  rmSync(project, { recursive: true, force: true });
+  mkdirSync(nested, { recursive: true });
+});
+
+describe('config precedence', () => {
+  it('overlays the nearest project file on the user file', () => {
+    writeJson(userConfigPath(), { forge: 'gitlab', port: 4000, cache: false });
+    writeJson(join(project, PROJECT_CONFIG_FILE), { port: 5000, cacheDir: 'cache' });
+
+    const { config, sources } = loadConfig(nested);
+
+    assert.equal(config.forge, 'gitlab');
+    assert.equal(config.port, 5000);
+    assert.equal(config.cache, false);
+    assert.equal(config.cacheDir, join(project, 'cache'));
+    assert.equal(sources.forge, userConfigPath());
+    assert.equal(sources.port, join(project, PROJECT_CONFIG_FILE));
+  });
+
+  it('lets flags win over configured values', () => {
+    const config = { forge: 'gitlab' as const, port: 4000, format: 'json' as const };
+
+    const fromConfig = parseCli(['alice'], config);
+    assert.equal(fromConfig.forge, 'gitlab');
+    assert.equal(fromConfig.port, 4000);
+    assert.equal(fromConfig.json, true);
+
+    const fromFlags = parseCli(['--forge', 'github', '--port', '5000', '--csv', 'alice'], config);
+    assert.equal(fromFlags.forge, 'github');
+    assert.equal(fromFlags.port, 5000);
+    assert.equal(fromFlags.json, false);
+  });
+
+  it('rejects unknown keys and bad values when loading', () => {
+    writeJson(userConfigPath(), { prot: 4000 });
+    assert.throws(() => loadConfig(nested), /unknown key "prot"/);
+
+    writeJson(userConfigPath(), { port: 'soon' });
+    assert.throws(() => readConfigFile(userConfigPath()), /port must be a port number/);
+  });
+});
+
+describe('config set and unset', () => {
+  it('repair a file with unknown keys', () => {
+    const file = userConfigPath();
+    writeJson(file, { prot: 4000 });
+
+    setConfigValue(file, 'port', '4000');
+    assert.equal(unsetConfigValue(file, 'prot'), true);
+    assert.deepEqual(JSON.parse(readFileSync(file, 'utf-8')), { port: 4000 });
+  });
+
+  it('only accept a built-in policy or a policy file that parses', () => {
+    const file = userConfigPath();
+    const policyFile = join(project, 'eras.json');
+    writeJson(policyFile, {
+      id: 'acme',
+      eras: [
+        { key: 'EARLY', title: 'Early', description: 'd', before: '2015-01-01T00:00:00Z' },
+        { key: 'LATE', title: 'Late', description: 'd' },
+      ],
+    });
+
+    assert.throws(() => setConfigValue(file, 'policy', join(root, 'missing.json')), /Unknown era/);
+    setConfigValue(file, 'policy', 'tiered');
+    setConfigValue(file, 'policy', policyFile);
+    assert.equal(readConfigFile(file).policy, policyFile);
+  });
+});
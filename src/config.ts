@@ -0,0 +1,264 @@
+/**
+ * @fileoverview CLI defaults from config files: the user's `$XDG_CONFIG_HOME/lastgen/config.json`
+ * and a project `.lastgenrc` in the working directory or a parent. The project file wins over
+ * the user file; flags and environment variables win over both.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+
+import type { EraPolicy, ForgeKind } from './core/types.ts';
+import type { VerifyFormat } from './verify-format.ts';
+import { FORGE_KINDS } from './core/forge.ts';
+import { BUILTIN_POLICIES, getBuiltinPolicy, parseEraPolicy } from './core/policy.ts';
+import { VERIFY_FORMATS } from './verify-format.ts';
+
+export interface LastgenConfig {
+  /** Output format when no output flag is given. `tap` and `junit` apply to verify only. */
+  format?: VerifyFormat;
+  forge?: ForgeKind;
+  /** Instance URL for `forge`, as for --api-url. */
+  apiUrl?: string;
+  /** False skips the response cache, as --no-cache does. */
+  cache?: boolean;
+  cacheDir?: string;
+  /** Built-in era policy id or policy JSON file. */
+  policy?: string;
+  port?: number;
+  host?: string;
+  /** Public keys or .pub files, as for --trusted-key. */
+  trustedKeys?: string[];
+}
+
+export type ConfigKey = keyof LastgenConfig;
+
+export const PROJECT_CONFIG_FILE = '.lastgenrc';
+
+interface KeySpec {
+  /** Checks a value read from JSON. Returns what is wrong with it, or null. */
+  check: (value: unknown) => string | null;
+  /** Converts a `config set` argument; the result is then checked. */
+  parse: (text: string) => unknown;
+  /**
+   * Values name files, relative to the config file: `always` resolves them, `existing` only
+   * when the file exists, since the value may also be a key or built-in id.
+   */
+  path?: 'always' | 'existing';
+  /** Further checks for `config set`, given the value with file paths resolved. Throws. */
+  verify?: (value: string) => void;
+}
+
+function choice(values: readonly string[]): KeySpec {
+  return {
+    check: (value) =>
+      typeof value === 'string' && values.includes(value)
+        ? null
+        : `must be one of: ${values.join(', ')}`,
+    parse: (text) => text,
+  };
+}
+
+const text: KeySpec = {
+  check: (value) =>
+    typeof value === 'string' && value !== '' ? null : 'must be a non-empty string',
+  parse: (value) => value,
+};
+
+const CONFIG_KEYS: Record<ConfigKey, KeySpec> = {
+  format: choice(VERIFY_FORMATS),
+  forge: choice(FORGE_KINDS),
+  apiUrl: {
+    check: (value) =>
+      typeof value === 'string' && /^https?:\/\/./.test(value) ? null : 'must be an http(s) URL',
+    parse: (value) => value.replace(/\/+$/, ''),
+  },
+  cache: {
+    check: (value) => (typeof value === 'boolean' ? null : 'must be true or false'),
+    parse: (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  },
+  cacheDir: { ...text, path: 'always' },
+  policy: { ...text, path: 'existing', verify: (value) => void readPolicy(value) },
+  port: {
+    check: (value) =>
+      Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 65535
+        ? null
+        : 'must be a port number from 1 to 65535',
+    parse: (value) => Number(value),
+  },
+  host: text,
+  trustedKeys: {
+    check: (value) =>
+      Array.isArray(value) && value.every((entry) => typeof entry === 'string' && entry !== '')
+        ? null
+        : 'must be an array of non-empty strings',
+    parse: (value) =>
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    path: 'existing',
+  },
+};
+
+/** A built-in policy by id, or a custom one from a JSON file. */
+export function readPolicy(value: string): EraPolicy {
+  const builtin = getBuiltinPolicy(value);
+  if (builtin) return builtin;
+  if (!existsSync(value)) {
+    const ids = BUILTIN_POLICIES.map((policy) => policy.id).join(', ');
+    throw new Error(`Unknown era policy: ${value}. Expected one of: ${ids}, or a policy JSON file`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(value, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read era policy JSON from ${value}`, { cause: err });
+  }
+  return parseEraPolicy(data);
+}
+
+export const CONFIG_KEY_NAMES = Object.keys(CONFIG_KEYS) as ConfigKey[];
+
+export function isConfigKey(value: string): value is ConfigKey {
+  return Object.hasOwn(CONFIG_KEYS, value);
+}
+
+export function userConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'lastgen', 'config.json');
+}
+
+/** Nearest `.lastgenrc` in `cwd` or one of its parents, or null. */
+export function findProjectConfig(cwd: string = process.cwd()): string | null {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    if (dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * The JSON object in a config file, unchecked, so `config set` and `unset` can repair a file
+ * with unknown keys or bad values. A missing file is an empty object.
+ */
+function readConfigObject(path: string): Record<string, unknown> {
+  if (!existsSync(path)) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read config JSON from ${path}`, { cause: err });
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid config in ${path}: expected a JSON object`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/** Reads and checks one config file, as written. A missing file is an empty config. */
+export function readConfigFile(path: string): LastgenConfig {
+  const data = readConfigObject(path);
+  for (const [key, value] of Object.entries(data)) {
+    if (!isConfigKey(key)) {
+      throw new Error(
+        `Invalid config in ${path}: unknown key "${key}". Expected one of: ${CONFIG_KEY_NAMES.join(', ')}`,
+      );
+    }
+    const problem = CONFIG_KEYS[key].check(value);
+    if (problem) {
+      throw new Error(`Invalid config in ${path}: ${key} ${problem}`);
+    }
+  }
+  return data as LastgenConfig;
+}
+
+function mapPaths(value: unknown, map: (path: string) => string): unknown {
+  return Array.isArray(value) ? value.map((entry: string) => map(entry)) : map(value as string);
+}
+
+/** Resolves a file-path value against `dir`; `existing` values that name no file are kept. */
+function resolvePath(kind: 'always' | 'existing', dir: string, value: string): string {
+  const candidate = resolve(dir, value);
+  return kind === 'always' || existsSync(candidate) ? candidate : value;
+}
+
+export interface LoadedConfig {
+  /** Effective values, with file paths resolved. */
+  config: LastgenConfig;
+  /** File each value came from. */
+  sources: Partial<Record<ConfigKey, string>>;
+}
+
+/** The user config overlaid with the nearest project config. */
+export function loadConfig(cwd: string = process.cwd()): LoadedConfig {
+  const config: Record<string, unknown> = {};
+  const sources: LoadedConfig['sources'] = {};
+
+  const files = [userConfigPath(), findProjectConfig(cwd)];
+  for (const file of files) {
+    if (!file) continue;
+    const values = readConfigFile(file);
+    for (const key of CONFIG_KEY_NAMES) {
+      const value = values[key];
+      if (value === undefined) continue;
+      const kind = CONFIG_KEYS[key].path;
+      config[key] = kind
+        ? mapPaths(value, (path) => resolvePath(kind, dirname(file), path))
+        : value;
+      sources[key] = file;
+    }
+  }
+  return { config: config as LastgenConfig, sources };
+}
+
+/**
+ * Sets `key` in the config file at `path` from a command-line argument. File paths are
+ * taken relative to the working directory and stored relative to the config file when it
+ * sits above them, absolute otherwise. Lists are comma-separated.
+ */
+export function setConfigValue(path: string, key: ConfigKey, input: string): void {
+  const spec = CONFIG_KEYS[key];
+  let value = spec.parse(input);
+  const problem = spec.check(value);
+  if (problem) {
+    throw new Error(`${key} ${problem}`);
+  }
+
+  const kind = spec.path;
+  if (kind) {
+    value = mapPaths(value, (entry) => {
+      const absolute = resolvePath(kind, process.cwd(), entry);
+      spec.verify?.(absolute);
+      if (absolute === entry) return entry;
+      const fromConfig = relative(dirname(path), absolute);
+      return fromConfig.startsWith('..') ? absolute : fromConfig;
+    });
+  }
+
+  writeConfigFile(path, { ...readConfigObject(path), [key]: value });
+}
+
+/**
+ * Removes `key` from the config file at `path`. Returns false if it was not set there.
+ * Unknown keys can be removed too, since a typo would otherwise need a hand edit.
+ */
+export function unsetConfigValue(path: string, key: string): boolean {
+  const config = readConfigObject(path);
+  if (!Object.hasOwn(config, key)) return false;
+  delete config[key];
+  writeConfigFile(path, config);
+  return true;
+}
+
+function writeConfigFile(path: string, config: Record<string, unknown>): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n');
+}
+
+/** A value as `config get` prints it: lists comma-separated, like `config set` takes them. */
+export function formatConfigValue(value: LastgenConfig[ConfigKey]): string {
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
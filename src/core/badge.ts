@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Self-hosted SVG badges in the look of shields.io's flat and for-the-badge
+ * styles, so a README badge needs no third-party image service. Platform-agnostic: text is
+ * measured with approximate Verdana widths instead of a font renderer.
+ */
+
+import type { Certificate, EraPolicy } from './types.ts';
+import { describeEra } from './policy.ts';
+
+export type BadgeStyle = 'flat' | 'for-the-badge';
+
+export const BADGE_STYLES: readonly BadgeStyle[] = ['flat', 'for-the-badge'];
+
+export interface BadgeOptions {
+  /** Defaults to `for-the-badge`, the style of the shields.io badge lastgen used before. */
+  style?: BadgeStyle;
+  /** Append the proof year, e.g. `Last Gen 2012`. */
+  year?: boolean;
+  /** Append the certificate number. */
+  number?: boolean;
+  /** Custom era policy the certificate may name, for its era label. */
+  policy?: EraPolicy;
+}
+
+const BADGE_LABEL = 'lastgen';
+
+/** shields.io named colors. */
+const BADGE_COLORS = {
+  LAST_GEN: '#007ec6',
+  AI_NATIVE: '#4c1',
+  error: '#9f9f9f',
+} as const;
+
+const LABEL_COLOR = '#555';
+const FONT_FAMILY = 'Verdana,Geneva,DejaVu Sans,sans-serif';
+
+export function isBadgeStyle(value: string): value is BadgeStyle {
+  return (BADGE_STYLES as readonly string[]).includes(value);
+}
+
+/** Approximate advance widths of 11px Verdana, by character class. */
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if ("fijlrtI.,:;|!' ".includes(char)) width += 4;
+    else if ('mwMW'.includes(char)) width += 10;
+    else if (char >= 'A' && char <= 'Z') width += 7.7;
+    else width += 6.8;
+  }
+  return width;
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function flatBadge(label: string, message: string, color: string): string {
+  const labelWidth = Math.round(textWidth(label) + 10);
+  const messageWidth = Math.round(textWidth(message) + 10);
+  const width = labelWidth + messageWidth;
+  const title = xml(`${label}: ${message}`);
+  const text = (value: string, center: number): string =>
+    `<text x="${center}" y="15" fill="#010101" fill-opacity=".3">${xml(value)}</text>` +
+    `<text x="${center}" y="14">${xml(value)}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>',
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)"><rect width="${labelWidth}" height="20" fill="${LABEL_COLOR}"/><rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${color}"/><rect width="${width}" height="20" fill="url(#s)"/></g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="11">`,
+    text(label, labelWidth / 2),
+    text(message, labelWidth + messageWidth / 2),
+    '</g>',
+    '</svg>',
+  ].join('');
+}
+
+/** Uppercase 10px text with 1.25px letter spacing and 12px of padding on each side. */
+function forTheBadge(label: string, message: string, color: string): string {
+  const upperLabel = label.toUpperCase();
+  const upperMessage = message.toUpperCase();
+  const measure = (value: string): number =>
+    Math.round((textWidth(value) * 10) / 11 + value.length * 1.25 + 24);
+  const labelWidth = measure(upperLabel);
+  const messageWidth = measure(upperMessage);
+  const width = labelWidth + messageWidth;
+  const title = xml(`${label}: ${message}`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="28" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    `<g shape-rendering="crispEdges"><rect width="${labelWidth}" height="28" fill="${LABEL_COLOR}"/><rect x="${labelWidth}" width="${messageWidth}" height="28" fill="${color}"/></g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="10" letter-spacing="1.25">`,
+    `<text x="${labelWidth / 2}" y="17.5">${xml(upperLabel)}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="17.5" font-weight="bold">${xml(upperMessage)}</text>`,
+    '</g>',
+    '</svg>',
+  ].join('');
+}
+
+function renderBadge(message: string, color: string, style: BadgeStyle): string {
+  return style === 'flat'
+    ? flatBadge(BADGE_LABEL, message, color)
+    : forTheBadge(BADGE_LABEL, message, color);
+}
+
+/** Badge showing the certificate's era, e.g. `lastgen | Last Gen 2012`. */
+export function renderBadgeSvg(cert: Certificate, options: BadgeOptions = {}): string {
+  const { era, isLatest } = describeEra(cert, options.policy);
+  const parts = [era.label ?? era.title];
+  if (options.year) {
+    parts.push(String(new Date(cert.proof.proofDate).getUTCFullYear()));
+  }
+  if (options.number) {
+    parts.push(cert.certificateNumber);
+  }
+  const color = isLatest ? BADGE_COLORS.AI_NATIVE : BADGE_COLORS.LAST_GEN;
+  return renderBadge(parts.join(' '), color, options.style ?? 'for-the-badge');
+}
+
+/** Grey badge for a lookup that failed, e.g. `lastgen | user not found`. */
+export function renderErrorBadgeSvg(message: string, style: BadgeStyle = 'for-the-badge'): string {
+  return renderBadge(message, BADGE_COLORS.error, style);
+}
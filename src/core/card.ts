@@ -0,0 +1,117 @@
+/**
+ * @fileoverview 1200x630 share card for link previews (OpenGraph, Twitter) and downloads.
+ * Draws the certificate as the terminal-style box of renderCertificate, in SVG.
+ * Platform-agnostic: the web UI rasterizes the same SVG to PNG, and card-png.ts draws
+ * the same rows for `lastgen serve`.
+ */
+
+import type { Certificate, EraPolicy } from './types.ts';
+import { describeEra } from './policy.ts';
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+/** Characters inside the box, as in the CLI and web certificate. */
+const BOX_WIDTH = 50;
+const LABEL_WIDTH = 13;
+export const CARD_FONT_SIZE = 32;
+export const CARD_LINE_HEIGHT = 48;
+/** Advance width of one monospace character at FONT_SIZE. */
+const CHAR_WIDTH = CARD_FONT_SIZE * 0.6;
+
+export const CARD_BACKGROUND = '#0a0a0a';
+
+const COLORS = {
+  text: '#e0e0e0',
+  dim: '#666',
+  LAST_GEN: '#3b82f6',
+  AI_NATIVE: '#22c55e',
+} as const;
+
+/** A run of text in one color, as `#rgb` or `#rrggbb`. */
+export type CardSpan = [text: string, color: string, bold?: boolean];
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fit(text: string, width: number): string {
+  return text.length <= width ? text.padEnd(width) : `${text.slice(0, width - 3)}...`;
+}
+
+function rule(): CardSpan[] {
+  return [['+' + '-'.repeat(BOX_WIDTH + 2) + '+', COLORS.dim]];
+}
+
+function line(content: CardSpan[]): CardSpan[] {
+  return [['| ', COLORS.dim], ...content, [' |', COLORS.dim]];
+}
+
+function labelRow(label: string, value: string, color: string = COLORS.text): CardSpan[] {
+  return line([
+    [label.padEnd(LABEL_WIDTH), COLORS.dim],
+    [fit(value, BOX_WIDTH - LABEL_WIDTH), color],
+  ]);
+}
+
+/**
+ * Rows of the card's box, each the same number of characters wide. `policy` is a custom
+ * era policy the certificate may name.
+ */
+export function layoutShareCard(cert: Certificate, policy?: EraPolicy): CardSpan[][] {
+  const { era, isLatest } = describeEra(cert, policy);
+  const eraColor = isLatest ? COLORS.AI_NATIVE : COLORS.LAST_GEN;
+  const title = 'LASTGEN CERTIFICATE';
+  const titlePad = Math.floor((BOX_WIDTH - title.length) / 2);
+  const developer = cert.identity.name
+    ? `${cert.identity.username} (${cert.identity.name})`
+    : cert.identity.username;
+
+  return [
+    rule(),
+    line([
+      [' '.repeat(titlePad), COLORS.text],
+      [title.padEnd(BOX_WIDTH - titlePad), COLORS.text, true],
+    ]),
+    rule(),
+    labelRow('Certificate', cert.certificateNumber),
+    labelRow('Proof Date', new Date(cert.proof.proofDate).toISOString().slice(0, 10)),
+    line([[' '.repeat(BOX_WIDTH), COLORS.text]]),
+    labelRow('Developer', developer),
+    labelRow('Era', era.title, eraColor),
+    labelRow('', era.description, COLORS.dim),
+    rule(),
+  ];
+}
+
+/** `policy` is a custom era policy the certificate may name. */
+export function renderShareCardSvg(cert: Certificate, policy?: EraPolicy): string {
+  const rows = layoutShareCard(cert, policy);
+  const { era } = describeEra(cert, policy);
+
+  const left = Math.round((CARD_WIDTH - (BOX_WIDTH + 4) * CHAR_WIDTH) / 2);
+  const top = (CARD_HEIGHT - rows.length * CARD_LINE_HEIGHT) / 2 + CARD_FONT_SIZE;
+  const text = rows.map((spans, index) => {
+    const tspans = spans
+      .map(
+        ([content, color, bold]) =>
+          `<tspan fill="${color}"${bold ? ' font-weight="bold"' : ''}>${xml(content)}</tspan>`,
+      )
+      .join('');
+    return `<text x="${left}" y="${top + index * CARD_LINE_HEIGHT}">${tspans}</text>`;
+  });
+  const label = xml(`${cert.identity.username}: ${era.title}, ${cert.certificateNumber}`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" role="img" aria-label="${label}">`,
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="${CARD_BACKGROUND}"/>`,
+    `<g font-family="'JetBrains Mono','DejaVu Sans Mono',Menlo,Consolas,monospace" font-size="${CARD_FONT_SIZE}" xml:space="preserve">`,
+    ...text,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Era breakdown across a group of certificates, for org and team reports.
+ * Platform-agnostic: takes issued certificates, returns plain counts.
+ */
+
+import type { Certificate, EraPolicy } from './types.ts';
+import { DEFAULT_POLICY } from './policy.ts';
+import { classifyEra } from './proof.ts';
+
+export interface CensusMember {
+  username: string;
+  certificate?: Certificate;
+  /** Why no certificate could be issued. */
+  error?: string;
+  /** Contribution count, for reports weighted by activity. */
+  weight?: number;
+  /** Set for contributors left out of the census, e.g. bots. */
+  skipped?: 'bot' | 'anonymous';
+}
+
+export interface EraCensus {
+  total: number;
+  /** Members per era key, in policy order. */
+  eras: Record<string, number>;
+  /** Sum of member weights per era. Present only when members carry weights. */
+  weighted?: Record<string, number>;
+  /** Members per proof-date year, in ascending year order. */
+  byYear: Array<{ year: number; count: number }>;
+  /** Members whose certificate rests on no public commit. */
+  noCommits: string[];
+  failed: Array<{ username: string; error: string }>;
+  skipped: Array<{ username: string; reason: 'bot' | 'anonymous'; weight: number }>;
+}
+
+/** Members are classified under `policy` from their proof dates. */
+export function buildCensus(
+  members: CensusMember[],
+  policy: EraPolicy = DEFAULT_POLICY,
+): EraCensus {
+  const eras = Object.fromEntries(policy.eras.map((era) => [era.key, 0]));
+  const years = new Map<number, number>();
+  const noCommits: string[] = [];
+  const failed: EraCensus['failed'] = [];
+  const skipped: EraCensus['skipped'] = [];
+  const hasWeights = members.some((member) => member.weight !== undefined);
+  const weighted = Object.fromEntries(policy.eras.map((era) => [era.key, 0]));
+
+  for (const member of members) {
+    if (member.skipped) {
+      skipped.push({
+        username: member.username,
+        reason: member.skipped,
+        weight: member.weight ?? 0,
+      });
+      continue;
+    }
+
+    const cert = member.certificate;
+    if (!cert) {
+      failed.push({ username: member.username, error: member.error ?? 'Unknown error' });
+      continue;
+    }
+
+    const era = classifyEra(cert.proof.proofDate, policy);
+    eras[era] = (eras[era] ?? 0) + 1;
+    weighted[era] = (weighted[era] ?? 0) + (member.weight ?? 0);
+    const year = new Date(cert.proof.proofDate).getUTCFullYear();
+    years.set(year, (years.get(year) ?? 0) + 1);
+    if (!cert.proof.firstCommit.sha) {
+      noCommits.push(cert.identity.username);
+    }
+  }
+
+  return {
+    total: members.length - skipped.length,
+    eras,
+    weighted: hasWeights ? weighted : undefined,
+    byYear: [...years.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, count]) => ({ year, count })),
+    noCommits,
+    failed,
+    skipped,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Forge provider abstraction. Lookup and verification talk to a
+ * ForgeProvider instead of a specific API, so GitHub, GitLab and Gitea accounts all count.
+ */
+
+import type {
+  ActivityDetail,
+  ActivityEvidence,
+  CommitDetail,
+  FirstCommit,
+  ForgeKind,
+  ForgeUser,
+  RepoContributor,
+  RepoInfo,
+} from './types.ts';
+import type { RetryPolicy } from './retry.ts';
+import { createGitHubProvider } from './github.ts';
+import { createGitLabProvider } from './gitlab.ts';
+import { createGiteaProvider } from './gitea.ts';
+import { PUBLIC_API_URLS } from './instances.ts';
+
+export const FORGE_KINDS: readonly ForgeKind[] = ['github', 'gitlab', 'gitea'];
+
+export interface ForgeClientOptions {
+  token?: string;
+  /** Base URL of a self-hosted instance. Required for Gitea. */
+  apiUrl?: string;
+  /** Replaces the global fetch, e.g. with a rate-limit-aware scheduler. */
+  fetch?: typeof fetch;
+  /** Retries and rate-limit waits. Honoured by the GitHub client. */
+  retry?: RetryPolicy;
+}
+
+export interface ForgeProvider {
+  kind: ForgeKind;
+  /** Display name used in status and error messages. */
+  name: string;
+  /** API URL requests are sent to. */
+  apiUrl: string;
+  fetchUser: (username: string) => Promise<ForgeUser>;
+  /** Looks up a user by numeric ID, which survives username changes. */
+  fetchUserById: (id: number) => Promise<ForgeUser>;
+  fetchFirstCommit: (username: string) => Promise<FirstCommit | null>;
+  /** Earliest commits in up to `count` distinct repos. Only some forges support it. */
+  fetchEarliestCommits?: (username: string, count: number) => Promise<FirstCommit[]>;
+  /** Earliest issue, pull request, gist or repo, for accounts without commits. */
+  fetchEarliestActivity?: (username: string) => Promise<ActivityEvidence | null>;
+  fetchActivity?: (activity: ActivityEvidence) => Promise<ActivityDetail>;
+  /** Logins of an organization's public members, or of one of its teams. */
+  fetchOrgMembers?: (org: string, team?: string) => Promise<string[]>;
+  /** Contributors of a repo with their commit counts, bots and anonymous ones included. */
+  fetchContributors?: (repoFullName: string) => Promise<RepoContributor[]>;
+  fetchRepo: (repoFullName: string) => Promise<RepoInfo>;
+  fetchCommit: (repoFullName: string, sha: string) => Promise<CommitDetail>;
+  /** Whether an email is the forge's private noreply address for this user. */
+  matchesNoreplyEmail: (email: string, username: string) => boolean;
+}
+
+const FORGE_NAMES: Record<ForgeKind, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+};
+
+/** Display name of a certificate's forge, without building a client for it. */
+export function getForgeName(forge: ForgeKind, apiUrl: string | undefined): string {
+  return forge === 'github' && apiUrl && apiUrl !== PUBLIC_API_URLS.github
+    ? 'GitHub Enterprise'
+    : FORGE_NAMES[forge];
+}
+
+export function isForgeKind(value: string): value is ForgeKind {
+  return (FORGE_KINDS as readonly string[]).includes(value);
+}
+
+export function createForgeProvider(
+  kind: ForgeKind,
+  options: ForgeClientOptions = {},
+): ForgeProvider {
+  switch (kind) {
+    case 'github':
+      return createGitHubProvider(options);
+    case 'gitlab':
+      return createGitLabProvider(options);
+    case 'gitea':
+      return createGiteaProvider(options);
+  }
+}
+
+/**
+ * API URL a certificate's identity was issued against: the recorded self-hosted
+ * instance, or the forge's public API.
+ */
+export function getIssuingApiUrl(forge: ForgeKind, apiUrl: string | undefined): string | null {
+  return apiUrl ?? PUBLIC_API_URLS[forge] ?? null;
+}
+
+/** API URL to record in a certificate: the self-hosted instance, or undefined for a public one. */
+export function getInstanceApiUrl(provider: ForgeProvider): string | undefined {
+  return provider.apiUrl === PUBLIC_API_URLS[provider.kind] ? undefined : provider.apiUrl;
+}
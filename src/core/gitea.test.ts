@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createGiteaProvider, normalizeGiteaApiUrl } from './gitea.ts';
+import { isNotFoundError, isTransientError } from './retry.ts';
+
+const API = 'https://git.example.com/api/v1';
+
+interface Reply {
+  body: unknown;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/** Provider whose fetch answers from a path-to-reply map; unknown paths are 404s. */
+function fakeProvider(routes: Record<string, Reply>) {
+  const urls: string[] = [];
+  const fakeFetch = async (input: string | URL): Promise<Response> => {
+    const url = String(input);
+    urls.push(url);
+    const reply = routes[url.slice(API.length)];
+    if (!reply) return new Response('{}', { status: 404 });
+    return new Response(JSON.stringify(reply.body), {
+      status: reply.status ?? 200,
+      headers: { 'content-type': 'application/json', ...reply.headers },
+    });
+  };
+  const provider = createGiteaProvider({
+    apiUrl: 'https://git.example.com/',
+    fetch: fakeFetch as typeof fetch,
+  });
+  return { provider, urls };
+}
+
+function commitItem(sha: string, login: string, date: string, parents: unknown[] = [{}]) {
+  return {
+    sha,
+    author: { login, id: login === 'alice' ? 42 : 7 },
+    committer: null,
+    parents,
+    commit: {
+      message: `Commit ${sha}\n\nbody`,
+      author: { email: `${login}@example.com`, date },
+      committer: { date },
+    },
+  };
+}
+
+const COMMITS = '&stat=false&verification=false&files=false';
+const alice = { login: 'alice', id: 42, full_name: '', created: '2010-03-01T00:00:00Z' };
+
+describe('Gitea provider', () => {
+  it('accepts the instance URL or its API URL', () => {
+    assert.equal(normalizeGiteaApiUrl('https://git.example.com/'), API);
+    assert.equal(normalizeGiteaApiUrl(`${API}/`), API);
+    assert.throws(() => createGiteaProvider({}), /requires the instance URL/);
+  });
+
+  it('finds the oldest commit by the user across repos, from the last page back', async () => {
+    const { provider, urls } = fakeProvider({
+      '/users/alice': { body: alice },
+      '/users/alice/repos?limit=50': {
+        body: [
+          { full_name: 'alice/new', created_at: '2015-01-01T00:00:00Z' },
+          { full_name: 'alice/empty', created_at: '2011-01-01T00:00:00Z', empty: true },
+          { full_name: 'alice/old', created_at: '2012-01-01T00:00:00Z' },
+        ],
+      },
+      [`/repos/alice/new/commits?limit=50&page=1${COMMITS}`]: {
+        body: [commitItem('n1', 'alice', '2015-02-01T00:00:00Z')],
+        headers: { 'x-total-count': '1' },
+      },
+      [`/repos/alice/old/commits?limit=50&page=1${COMMITS}`]: {
+        body: [],
+        headers: { 'x-total-count': '60' },
+      },
+      [`/repos/alice/old/commits?limit=50&page=2${COMMITS}`]: {
+        body: [
+          commitItem('o2', 'alice', '2012-03-01T00:00:00Z'),
+          commitItem('o1', 'alice', '2012-02-01T00:00:00Z'),
+          commitItem('o0', 'bob', '2012-01-02T00:00:00Z', []),
+        ],
+      },
+    });
+    const commit = await provider.fetchFirstCommit('alice');
+
+    assert.deepEqual(commit, {
+      date: '2012-02-01T00:00:00Z',
+      repo: 'alice/old',
+      sha: 'o1',
+      message: 'Commit o1',
+      repoCreatedAt: '2012-01-01T00:00:00Z',
+      committerDate: '2012-02-01T00:00:00Z',
+    });
+    assert.ok(!urls.some((url) => url.includes('alice/empty')));
+  });
+
+  it('reads author, signature and root status from a single commit', async () => {
+    const item = commitItem('abc123', 'alice', '2012-02-01T00:00:00Z', []);
+    const { provider } = fakeProvider({
+      '/repos/alice/old/git/commits/abc123': {
+        body: {
+          ...item,
+          commit: { ...item.commit, verification: { verified: true, reason: 'alice / key' } },
+        },
+      },
+    });
+    const commit = await provider.fetchCommit('alice/old', 'abc123');
+
+    assert.equal(commit.authorLogin, 'alice');
+    assert.equal(commit.authorId, 42);
+    assert.equal(commit.authorEmail, 'alice@example.com');
+    assert.equal(commit.isRootCommit, true);
+    assert.equal(commit.verified, true);
+    assert.equal(commit.verificationReason, 'alice / key');
+  });
+
+  it('reports a missing user as not found and outages as transient', async () => {
+    const { provider } = fakeProvider({
+      '/users/search?uid=7&limit=1': { body: { data: [] } },
+      '/repos/alice/old': { body: {}, status: 503 },
+    });
+
+    await assert.rejects(provider.fetchUser('nobody'), (err) => {
+      assert.ok(isNotFoundError(err));
+      assert.match((err as Error).message, /Gitea user 'nobody' not found/);
+      return true;
+    });
+    await assert.rejects(provider.fetchUserById(7), (err) => isNotFoundError(err));
+    await assert.rejects(provider.fetchRepo('alice/old'), (err) => isTransientError(err));
+  });
+
+  it('matches noreply emails on the instance host', () => {
+    const { provider } = fakeProvider({});
+
+    assert.equal(provider.matchesNoreplyEmail('alice@noreply.git.example.com', 'alice'), true);
+    assert.equal(provider.matchesNoreplyEmail('alice@noreply.gitea.com', 'alice'), false);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Gitea / Forgejo API client using built-in fetch. Zero dependencies.
+ * Works against any instance. Gitea has no commit search, so the first commit is
+ * found by paging each of the user's repos back to its oldest commits.
+ */
+
+import type { CommitDetail, FirstCommit, ForgeUser, RepoInfo } from './types.ts';
+import type { ForgeClientOptions, ForgeProvider } from './forge.ts';
+import { matchesNoreplyPattern } from './instances.ts';
+import { getEffectiveCommitDate } from './proof.ts';
+import { isTransientError, notFoundError, transientError } from './retry.ts';
+
+const USER_AGENT = 'lastgen';
+const API_PATH = '/api/v1';
+const MAX_REPOS = 50;
+const COMMITS_PER_PAGE = 50;
+const MAX_COMMIT_PAGES = 5;
+
+interface GiteaRepo {
+  fullName: string;
+  createdAt: string;
+}
+
+/** Accepts either the instance URL or its API URL and returns the API URL. */
+export function normalizeGiteaApiUrl(url: string): string {
+  const trimmed = url.replace(/\/+$/, '');
+  return trimmed.endsWith(API_PATH) ? trimmed : `${trimmed}${API_PATH}`;
+}
+
+function buildHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'User-Agent': USER_AGENT,
+  };
+  if (token) {
+    headers['Authorization'] = `token ${token}`;
+  }
+  return headers;
+}
+
+async function giteaFetch(
+  url: string,
+  token: string | undefined,
+  fetchFn: typeof fetch,
+): Promise<Response> {
+  const response = await fetchFn(url, { headers: buildHeaders(token) });
+
+  if (response.status === 429) {
+    throw transientError('Gitea API rate limit exceeded. Try again later.');
+  }
+
+  if (response.status === 404) {
+    const userMatch = url.match(/\/users\/([^/?]+)$/);
+    if (userMatch?.[1]) {
+      throw notFoundError(
+        `Gitea user '${decodeURIComponent(userMatch[1])}' not found. Check the spelling?`,
+      );
+    }
+    throw notFoundError(`Not found: ${url}`);
+  }
+
+  if (response.status >= 500) {
+    throw transientError(`Gitea API unavailable: ${response.status} ${response.statusText}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Gitea API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+function parseUser(data: Record<string, unknown>): ForgeUser {
+  return {
+    login: data.login as string,
+    id: data.id as number,
+    name: (data.full_name as string | undefined) || null,
+    createdAt: data.created as string,
+  };
+}
+
+function parseCommitItem(data: Record<string, unknown>): CommitDetail {
+  const commit = data.commit as Record<string, unknown>;
+  const commitAuthor = commit.author as Record<string, unknown>;
+  const commitCommitter = commit.committer as Record<string, unknown> | undefined;
+  const verification = commit.verification as Record<string, unknown> | undefined;
+  const author = data.author as Record<string, unknown> | null;
+  const committer = data.committer as Record<string, unknown> | null;
+  const parents = data.parents as Array<unknown> | undefined;
+
+  return {
+    sha: data.sha as string,
+    authorLogin: (author?.login as string | undefined) || null,
+    committerLogin: (committer?.login as string | undefined) || null,
+    authorEmail: (commitAuthor.email as string | undefined) ?? null,
+    authorDate: (commitAuthor.date as string | undefined) ?? null,
+    committerDate: (commitCommitter?.date as string | undefined) ?? null,
+    authorId: (author?.id as number | undefined) || null,
+    verificationReason: (verification?.reason as string | undefined) || null,
+    isRootCommit: Array.isArray(parents) && parents.length === 0,
+    message: ((commit.message as string) ?? '').split('\n')[0] ?? '',
+    verified: Boolean(verification?.verified),
+  };
+}
+
+function createClient(apiUrl: string, token?: string, fetchFn: typeof fetch = fetch) {
+  async function giteaJson<T>(path: string): Promise<{ data: T; response: Response }> {
+    const response = await giteaFetch(`${apiUrl}${path}`, token, fetchFn);
+    return { data: (await response.json()) as T, response };
+  }
+
+  async function fetchUser(username: string): Promise<ForgeUser> {
+    const { data } = await giteaJson<Record<string, unknown>>(
+      `/users/${encodeURIComponent(username)}`,
+    );
+    return parseUser(data);
+  }
+
+  async function fetchUserById(id: number): Promise<ForgeUser> {
+    const { data } = await giteaJson<{ data?: Array<Record<string, unknown>> }>(
+      `/users/search?uid=${id}&limit=1`,
+    );
+    const match = data.data?.find((u) => u.id === id);
+    if (!match) {
+      throw notFoundError(`Gitea user with ID ${id} not found`);
+    }
+    return parseUser(match);
+  }
+
+  async function listUserRepos(username: string): Promise<GiteaRepo[]> {
+    const { data } = await giteaJson<Array<Record<string, unknown>>>(
+      `/users/${encodeURIComponent(username)}/repos?limit=${MAX_REPOS}`,
+    );
+    return data
+      .filter((repo) => repo.empty !== true)
+      .map((repo) => ({
+        fullName: repo.full_name as string,
+        createdAt: repo.created_at as string,
+      }));
+  }
+
+  async function listCommits(
+    repo: GiteaRepo,
+    page: number,
+  ): Promise<{ items: Array<Record<string, unknown>>; total: number | null }> {
+    const { data, response } = await giteaJson<Array<Record<string, unknown>>>(
+      `/repos/${repo.fullName}/commits?limit=${COMMITS_PER_PAGE}&page=${page}` +
+        '&stat=false&verification=false&files=false',
+    );
+    const totalHeader = response.headers.get('x-total-count');
+    return { items: data, total: totalHeader ? Number(totalHeader) : null };
+  }
+
+  /**
+   * Oldest commit in the repo authored by the user. Commits are listed newest first,
+   * so this jumps to the last page via X-Total-Count and walks back MAX_COMMIT_PAGES.
+   */
+  async function findOldestCommit(repo: GiteaRepo, user: ForgeUser): Promise<FirstCommit | null> {
+    const isAuthor = (item: Record<string, unknown>): boolean => {
+      const author = item.author as Record<string, unknown> | null;
+      return (
+        author?.id === user.id ||
+        (typeof author?.login === 'string' &&
+          author.login.toLowerCase() === user.login.toLowerCase())
+      );
+    };
+
+    const first = await listCommits(repo, 1);
+    const lastPage = first.total ? Math.ceil(first.total / COMMITS_PER_PAGE) : 1;
+    const stopPage = Math.max(1, lastPage - MAX_COMMIT_PAGES + 1);
+
+    for (let page = lastPage; page >= stopPage; page--) {
+      const { items } = page === 1 ? first : await listCommits(repo, page);
+      const match = [...items].reverse().find(isAuthor);
+      if (match) {
+        const detail = parseCommitItem(match);
+        return {
+          date: detail.authorDate ?? '',
+          repo: repo.fullName,
+          sha: detail.sha,
+          message: detail.message,
+          repoCreatedAt: repo.createdAt,
+          committerDate: detail.committerDate ?? undefined,
+        };
+      }
+    }
+    return null;
+  }
+
+  async function fetchFirstCommit(username: string): Promise<FirstCommit | null> {
+    const user = await fetchUser(username);
+    const repos = await listUserRepos(user.login);
+
+    let earliest: { commit: FirstCommit; time: number } | null = null;
+    for (const repo of repos) {
+      const commit = await findOldestCommit(repo, user).catch((err: unknown) => {
+        if (isTransientError(err)) throw err;
+        return null;
+      });
+      if (!commit) continue;
+      const time = new Date(getEffectiveCommitDate(commit)).getTime();
+      if (!earliest || time < earliest.time) {
+        earliest = { commit, time };
+      }
+    }
+    return earliest?.commit ?? null;
+  }
+
+  async function fetchRepo(repoFullName: string): Promise<RepoInfo> {
+    const { data } = await giteaJson<Record<string, unknown>>(`/repos/${repoFullName}`);
+    return {
+      fullName: data.full_name as string,
+      createdAt: (data.created_at as string | undefined) ?? null,
+    };
+  }
+
+  async function fetchCommit(repoFullName: string, sha: string): Promise<CommitDetail> {
+    const { data } = await giteaJson<Record<string, unknown>>(
+      `/repos/${repoFullName}/git/commits/${sha}`,
+    );
+    return parseCommitItem(data);
+  }
+
+  return { fetchUser, fetchUserById, fetchFirstCommit, fetchRepo, fetchCommit };
+}
+
+export function createGiteaProvider(options: ForgeClientOptions = {}): ForgeProvider {
+  if (!options.apiUrl) {
+    throw new Error('Gitea requires the instance URL. Pass --api-url https://git.example.com');
+  }
+
+  const apiUrl = normalizeGiteaApiUrl(options.apiUrl);
+  const host = new URL(apiUrl).host;
+  const client = createClient(apiUrl, options.token, options.fetch);
+
+  return {
+    kind: 'gitea',
+    name: 'Gitea',
+    apiUrl,
+    ...client,
+    matchesNoreplyEmail: (email, username) =>
+      matchesNoreplyPattern(email, username, `noreply.${host}`, '+'),
+  };
+}
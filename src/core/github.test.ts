@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { GitHubClient } from './github.ts';
+import { fetchFirstCommit, fetchUser } from './github.ts';
+import { isTransientError } from './retry.ts';
+
+const userBody = {
+  login: 'alice',
+  id: 42,
+  name: null,
+  created_at: '2010-03-01T00:00:00Z',
+};
+
+/** Client whose fetch answers from the list in order and records each URL. */
+function scriptedClient(
+  responses: Array<() => Response>,
+  retries = 0,
+): { client: GitHubClient; urls: string[] } {
+  const urls: string[] = [];
+  const fakeFetch = async (input: string | URL): Promise<Response> => {
+    urls.push(String(input));
+    const next = responses.shift();
+    assert.ok(next, `unexpected request to ${String(input)}`);
+    return next();
+  };
+  return {
+    client: {
+      apiUrl: 'https://api.github.com',
+      fetch: fakeFetch as typeof fetch,
+      retry: { retries, waitForRateLimit: false },
+    },
+    urls,
+  };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): () => Response {
+  return () =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
+}
+
+async function rejectsTransient(promise: Promise<unknown>, pattern: RegExp): Promise<void> {
+  await assert.rejects(promise, (err) => {
+    assert.ok(isTransientError(err), `not transient: ${String(err)}`);
+    assert.match((err as Error).message, pattern);
+    return true;
+  });
+}
+
+describe('githubFetch retries', () => {
+  it('retries a 429 whose Retry-After is an HTTP date', async () => {
+    const past = new Date(Date.now() - 1000).toUTCString();
+    const { client, urls } = scriptedClient(
+      [json({}, 429, { 'retry-after': past }), json(userBody)],
+      1,
+    );
+
+    assert.equal((await fetchUser('alice', client)).login, 'alice');
+    assert.equal(urls.length, 2);
+  });
+
+  it('retries a 503 and gives up with a transient error', async () => {
+    const { client, urls } = scriptedClient([json({}, 503), json({}, 503)], 1);
+
+    await rejectsTransient(fetchUser('alice', client), /unavailable: 503.*gave up after 2/);
+    assert.equal(urls.length, 2);
+  });
+
+  it('does not read an unlabeled 429 during search as "no commits"', async () => {
+    const { client } = scriptedClient([json({ message: 'Too many requests' }, 429)]);
+
+    await rejectsTransient(fetchFirstCommit('alice', client), /rate limit hit/);
+  });
+
+  it('reports an exhausted primary rate limit with its reset time', async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 600);
+    const { client } = scriptedClient([
+      json({}, 403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }),
+    ]);
+
+    await rejectsTransient(fetchUser('alice', client), /rate limit exceeded\. Resets at/);
+  });
+
+  it('marks an unexplained 403 as transient', async () => {
+    const { client } = scriptedClient([json({ message: 'Forbidden' }, 403)]);
+
+    await rejectsTransient(fetchUser('alice', client), /GitHub API error: 403/);
+  });
+
+  it('keeps a missing user a plain error', async () => {
+    const { client } = scriptedClient([json({ message: 'Not Found' }, 404)]);
+
+    await assert.rejects(fetchUser('ghost', client), (err) => {
+      assert.equal(isTransientError(err), false);
+      assert.match((err as Error).message, /GitHub user 'ghost' not found/);
+      return true;
+    });
+  });
+});
@@ -2,11 +2,80 @@
  * @fileoverview GitHub API client using built-in fetch. Zero dependencies.
  */
 
-import type { GitHubUser, FirstCommit, CommitDetail } from './types.ts';
+import type {
+  ActivityDetail,
+  ActivityEvidence,
+  ForgeUser,
+  FirstCommit,
+  CommitDetail,
+  RepoContributor,
+  RepoInfo,
+} from './types.ts';
+import type { ForgeClientOptions, ForgeProvider } from './forge.ts';
 import { CUTOFF_DATE } from './types.ts';
+import type { RetryPolicy } from './retry.ts';
+import { GITHUB_API, matchesNoreplyPattern } from './instances.ts';
+import {
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  delay,
+  isNotFoundError,
+  isTransientError,
+  notFoundError,
+  transientError,
+} from './retry.ts';
 
-const GITHUB_API = 'https://api.github.com';
 const USER_AGENT = 'lastgen';
+/** Search results scanned for distinct repos when collecting multi-commit evidence. */
+const EVIDENCE_SEARCH_SIZE = 100;
+const GIST_PAGE_SIZE = 100;
+const MEMBER_PAGE_SIZE = 100;
+const MAX_MEMBER_PAGES = 10;
+/** GitHub lists at most 500 contributors by login; the rest come back anonymous. */
+const MAX_CONTRIBUTOR_PAGES = 5;
+/** GitHub asks clients to wait at least a minute after a secondary rate limit. */
+const SECONDARY_LIMIT_WAIT_MS = 60_000;
+/** Margin added after a rate-limit reset time, to absorb clock skew. */
+const RESET_MARGIN_MS = 1000;
+
+/** Connection settings shared by every request to one GitHub instance. */
+export interface GitHubClient {
+  apiUrl: string;
+  token?: string;
+  fetch?: typeof fetch;
+  /** Defaults to DEFAULT_RETRY_POLICY. */
+  retry?: RetryPolicy;
+}
+
+const PUBLIC_CLIENT: GitHubClient = { apiUrl: GITHUB_API };
+
+/**
+ * Normalizes a GitHub Enterprise Server URL. A bare instance URL gets the REST API
+ * prefix appended, e.g. `https://ghe.example.com` becomes `https://ghe.example.com/api/v3`,
+ * and a bare host such as `ghe.example.com` gets `https://` too.
+ * github.com itself maps to the public API.
+ */
+export function normalizeGitHubApiUrl(url: string): string {
+  const stripped = url.trim().replace(/\/+$/, '');
+  const trimmed = stripped.includes('://') ? stripped : `https://${stripped}`;
+  const { hostname, pathname } = new URL(trimmed);
+  if (hostname === 'github.com' || hostname === 'api.github.com') {
+    return GITHUB_API;
+  }
+  return pathname === '/' ? `${trimmed}/api/v3` : trimmed;
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, which holds either seconds or an
+ * HTTP date. Null when the header is missing or unreadable.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
 
 function buildHeaders(token?: string): Record<string, string> {
   const headers: Record<string, string> = {
@@ -21,43 +90,93 @@ function buildHeaders(token?: string): Record<string, string> {
 
 async function githubFetch(
   url: string,
-  token?: string,
+  client: GitHubClient,
   extraHeaders?: Record<string, string>,
 ): Promise<Response> {
-  const response = await fetch(url, { headers: { ...buildHeaders(token), ...extraHeaders } });
-
-  if (response.status === 403) {
-    const remaining = response.headers.get('x-ratelimit-remaining');
-    if (remaining === '0') {
-      const resetTimestamp = response.headers.get('x-ratelimit-reset');
-      const resetDate = resetTimestamp
-        ? new Date(Number(resetTimestamp) * 1000).toLocaleTimeString()
-        : 'soon';
-      throw new Error(`GitHub API rate limit exceeded. Resets at ${resetDate}.`);
+  const fetchFn = client.fetch ?? fetch;
+  const policy = client.retry ?? DEFAULT_RETRY_POLICY;
+  let attempt = 0;
+
+  /** Sleeps before the next attempt, or throws once the retries are spent. */
+  async function retryOrThrow(message: string, waitMs: number, cause?: unknown): Promise<void> {
+    if (attempt >= policy.retries) {
+      const attempts = attempt === 0 ? '1 attempt' : `${attempt + 1} attempts`;
+      throw transientError(`${message} (gave up after ${attempts})`, { cause });
     }
+    attempt++;
+    policy.onRetry?.(
+      `${message}; retrying in ${Math.ceil(waitMs / 1000)}s (${attempt}/${policy.retries})...`,
+    );
+    await delay(waitMs);
   }
 
-  if (response.status === 404) {
-    const userMatch = url.match(/\/users\/([^/?]+)/);
-    if (userMatch?.[1]) {
-      throw new Error(
-        `GitHub user '${decodeURIComponent(userMatch[1])}' not found. Check the spelling?`,
+  for (;;) {
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        headers: { ...buildHeaders(client.token), ...extraHeaders },
+      });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      await retryOrThrow(`GitHub API unreachable: ${reason}`, backoffDelay(attempt), err);
+      continue;
+    }
+
+    if (response.status === 403 || response.status === 429) {
+      const retryAfter = response.headers.get('retry-after');
+      const remaining = response.headers.get('x-ratelimit-remaining');
+      if (remaining === '0' && retryAfter === null) {
+        const resetTimestamp = response.headers.get('x-ratelimit-reset');
+        const resetDate = resetTimestamp
+          ? new Date(Number(resetTimestamp) * 1000).toLocaleTimeString()
+          : 'soon';
+        if (policy.waitForRateLimit && resetTimestamp) {
+          policy.onRetry?.(`GitHub API rate limit exceeded; waiting until ${resetDate}...`);
+          await delay(Number(resetTimestamp) * 1000 + RESET_MARGIN_MS - Date.now());
+          continue;
+        }
+        throw transientError(`GitHub API rate limit exceeded. Resets at ${resetDate}.`);
+      }
+
+      const body = await response.text().catch(() => '');
+      if (response.status === 429 || retryAfter !== null || /secondary rate limit/i.test(body)) {
+        const waitMs =
+          parseRetryAfter(retryAfter) ?? Math.max(SECONDARY_LIMIT_WAIT_MS, backoffDelay(attempt));
+        await retryOrThrow('GitHub API secondary rate limit hit', waitMs);
+        continue;
+      }
+      // A 403 that names no rate limit may still be one GitHub didn't label, and
+      // reading it as "not found" would hand out a wrong era.
+      throw transientError(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
+
+    if (response.status >= 500) {
+      await retryOrThrow(
+        `GitHub API unavailable: ${response.status} ${response.statusText}`,
+        backoffDelay(attempt),
       );
+      continue;
     }
-    throw new Error(`Not found: ${url}`);
-  }
 
-  if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-  }
+    if (response.status === 404) {
+      const userMatch = url.match(/\/users\/([^/?]+)/);
+      if (userMatch?.[1]) {
+        throw notFoundError(
+          `GitHub user '${decodeURIComponent(userMatch[1])}' not found. Check the spelling?`,
+        );
+      }
+      throw notFoundError(`Not found: ${url}`);
+    }
 
-  return response;
-}
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    }
 
-export async function fetchUser(username: string, token?: string): Promise<GitHubUser> {
-  const response = await githubFetch(`${GITHUB_API}/users/${encodeURIComponent(username)}`, token);
-  const data = (await response.json()) as Record<string, unknown>;
+    return response;
+  }
+}
 
+function parseUser(data: Record<string, unknown>): ForgeUser {
   return {
     login: data.login as string,
     id: data.id as number,
@@ -66,14 +185,34 @@ export async function fetchUser(username: string, token?: string): Promise<GitHu
   };
 }
 
+export async function fetchUser(
+  username: string,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<ForgeUser> {
+  const response = await githubFetch(
+    `${client.apiUrl}/users/${encodeURIComponent(username)}`,
+    client,
+  );
+  return parseUser((await response.json()) as Record<string, unknown>);
+}
+
+/** Looks up a user by numeric ID, which survives username changes. */
+export async function fetchUserById(
+  id: number,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<ForgeUser> {
+  const response = await githubFetch(`${client.apiUrl}/user/${id}`, client);
+  return parseUser((await response.json()) as Record<string, unknown>);
+}
+
 export async function fetchFirstCommit(
   username: string,
-  token?: string,
+  client: GitHubClient = PUBLIC_CLIENT,
 ): Promise<FirstCommit | null> {
-  const commit = await searchFirstCommit(username, token);
+  const commit = await searchFirstCommit(username, client);
 
   if (commit?.repo) {
-    commit.repoCreatedAt = await fetchRepoCreatedAt(commit.repo, token);
+    commit.repoCreatedAt = await fetchRepoCreatedAt(commit.repo, client);
   }
 
   return commit;
@@ -81,76 +220,352 @@ export async function fetchFirstCommit(
 
 async function fetchRepoCreatedAt(
   repoFullName: string,
-  token?: string,
+  client: GitHubClient,
 ): Promise<string | undefined> {
   try {
-    const response = await githubFetch(`${GITHUB_API}/repos/${repoFullName}`, token);
-    const data = (await response.json()) as Record<string, unknown>;
-    return (data.created_at as string | undefined) ?? undefined;
-  } catch {
+    const repo = await fetchRepo(repoFullName, client);
+    return repo.createdAt ?? undefined;
+  } catch (err) {
+    if (isTransientError(err)) throw err;
     return undefined;
   }
 }
 
-async function searchFirstCommitByQuery(
+export async function fetchRepo(
+  repoFullName: string,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<RepoInfo> {
+  const response = await githubFetch(`${client.apiUrl}/repos/${repoFullName}`, client);
+  const data = (await response.json()) as Record<string, unknown>;
+
+  return {
+    fullName: data.full_name as string,
+    createdAt: (data.created_at as string | undefined) ?? null,
+  };
+}
+
+function parseSearchItem(item: Record<string, unknown>): FirstCommit {
+  const commit = item.commit as Record<string, unknown>;
+  const author = commit.author as Record<string, unknown>;
+  const commitCommitter = commit.committer as Record<string, unknown> | undefined;
+  const repo = item.repository as Record<string, unknown>;
+
+  return {
+    date: author.date as string,
+    repo: (repo.full_name as string) ?? '',
+    sha: item.sha as string,
+    message: ((commit.message as string) ?? '').split('\n')[0] ?? '',
+    committerDate: (commitCommitter?.date as string | undefined) ?? undefined,
+  };
+}
+
+async function searchCommitsByQuery(
   query: string,
-  token?: string,
-  order: 'asc' | 'desc' = 'asc',
-): Promise<FirstCommit | null> {
+  client: GitHubClient,
+  order: 'asc' | 'desc',
+  perPage: number,
+): Promise<FirstCommit[]> {
   try {
-    const url = `${GITHUB_API}/search/commits?q=${encodeURIComponent(query)}&sort=committer-date&order=${order}&per_page=1`;
-    const response = await githubFetch(url, token, {
+    const url = `${client.apiUrl}/search/commits?q=${encodeURIComponent(query)}&sort=committer-date&order=${order}&per_page=${perPage}`;
+    const response = await githubFetch(url, client, {
       Accept: 'application/vnd.github.cloak-preview+json',
     });
 
     const data = (await response.json()) as Record<string, unknown>;
     const items = data.items as Array<Record<string, unknown>> | undefined;
-    const item = items?.[0];
-    if (!item) return null;
+    return (items ?? []).map(parseSearchItem);
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    return [];
+  }
+}
 
-    const commit = item.commit as Record<string, unknown>;
-    const author = commit.author as Record<string, unknown>;
-    const commitCommitter = commit.committer as Record<string, unknown> | undefined;
-    const repo = item.repository as Record<string, unknown>;
+async function searchFirstCommitByQuery(
+  query: string,
+  client: GitHubClient,
+  order: 'asc' | 'desc' = 'asc',
+): Promise<FirstCommit | null> {
+  const commits = await searchCommitsByQuery(query, client, order, 1);
+  return commits[0] ?? null;
+}
 
-    return {
-      date: author.date as string,
-      repo: (repo.full_name as string) ?? '',
-      sha: item.sha as string,
-      message: ((commit.message as string) ?? '').split('\n')[0] ?? '',
-      committerDate: (commitCommitter?.date as string | undefined) ?? undefined,
-    };
-  } catch (err) {
-    if (err instanceof Error && err.message.includes('rate limit')) throw err;
-    return null;
+/**
+ * Earliest commits by the user, at most one per repo, so a multi-evidence proof doesn't
+ * rest on a single repository. Each carries its repo's creation date.
+ */
+export async function fetchEarliestCommits(
+  username: string,
+  count: number,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<FirstCommit[]> {
+  const candidates = await searchCommitsByQuery(
+    `author:${username}`,
+    client,
+    'asc',
+    EVIDENCE_SEARCH_SIZE,
+  );
+
+  const byRepo = new Map<string, FirstCommit>();
+  for (const commit of candidates) {
+    const key = commit.repo.toLowerCase();
+    if (commit.repo && !byRepo.has(key)) {
+      byRepo.set(key, commit);
+    }
+    if (byRepo.size >= count) break;
+  }
+
+  const commits = [...byRepo.values()];
+  for (const commit of commits) {
+    commit.repoCreatedAt = await fetchRepoCreatedAt(commit.repo, client);
   }
+  return commits;
 }
 
-async function searchFirstCommit(username: string, token?: string): Promise<FirstCommit | null> {
+async function searchFirstCommit(
+  username: string,
+  client: GitHubClient,
+): Promise<FirstCommit | null> {
   const cutoffDate = CUTOFF_DATE.slice(0, 10);
 
   return (
     (await searchFirstCommitByQuery(
       `author:${username} user:${username} committer-date:<${cutoffDate}`,
-      token,
+      client,
       'desc',
     )) ??
     (await searchFirstCommitByQuery(
       `author:${username} committer-date:<${cutoffDate}`,
-      token,
+      client,
       'desc',
     )) ??
-    (await searchFirstCommitByQuery(`author:${username}`, token))
+    (await searchFirstCommitByQuery(`author:${username}`, client))
   );
 }
 
+/** Treats a failed optional lookup as "nothing found", but lets transient failures surface. */
+async function orNull<T>(lookup: Promise<T | null>): Promise<T | null> {
+  try {
+    return await lookup;
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    return null;
+  }
+}
+
+async function searchEarliestIssue(
+  username: string,
+  kind: 'issue' | 'pull_request',
+  client: GitHubClient,
+): Promise<ActivityEvidence | null> {
+  const query = `author:${username} type:${kind === 'issue' ? 'issue' : 'pr'}`;
+  const url = `${client.apiUrl}/search/issues?q=${encodeURIComponent(query)}&sort=created&order=asc&per_page=1`;
+  const response = await githubFetch(url, client);
+  const data = (await response.json()) as Record<string, unknown>;
+  const item = (data.items as Array<Record<string, unknown>> | undefined)?.[0];
+  if (!item) return null;
+
+  const repositoryUrl = (item.repository_url as string | undefined) ?? '';
+  return {
+    kind,
+    date: item.created_at as string,
+    ref: repositoryUrl.split('/repos/')[1] ?? '',
+    number: item.number as number,
+    title: (item.title as string | undefined) ?? '',
+    url: item.html_url as string,
+  };
+}
+
+/** Gists are listed newest first, so the oldest one is on the last page. */
+async function fetchEarliestGist(
+  username: string,
+  client: GitHubClient,
+): Promise<ActivityEvidence | null> {
+  const firstUrl = `${client.apiUrl}/users/${encodeURIComponent(username)}/gists?per_page=${GIST_PAGE_SIZE}`;
+  let response = await githubFetch(firstUrl, client);
+  const lastUrl = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="last"/)?.[1];
+  if (lastUrl?.startsWith(client.apiUrl)) {
+    response = await githubFetch(lastUrl, client);
+  }
+
+  const gists = (await response.json()) as Array<Record<string, unknown>>;
+  let earliest: Record<string, unknown> | undefined;
+  for (const gist of gists) {
+    if (!earliest || (gist.created_at as string) < (earliest.created_at as string)) {
+      earliest = gist;
+    }
+  }
+  if (!earliest) return null;
+
+  return {
+    kind: 'gist',
+    date: earliest.created_at as string,
+    ref: earliest.id as string,
+    title: (earliest.description as string | null) || (earliest.id as string),
+    url: earliest.html_url as string,
+  };
+}
+
+async function fetchEarliestRepo(
+  username: string,
+  client: GitHubClient,
+): Promise<ActivityEvidence | null> {
+  const url = `${client.apiUrl}/users/${encodeURIComponent(username)}/repos?type=owner&sort=created&direction=asc&per_page=1`;
+  const response = await githubFetch(url, client);
+  const repo = ((await response.json()) as Array<Record<string, unknown>>)[0];
+  if (!repo) return null;
+
+  return {
+    kind: 'repo',
+    date: repo.created_at as string,
+    ref: repo.full_name as string,
+    title: repo.full_name as string,
+    url: repo.html_url as string,
+  };
+}
+
+/**
+ * Earliest non-commit activity: authored pull request or issue, gist, or owned repo.
+ * The earliest item wins; on a tie, the order above decides.
+ */
+export async function fetchEarliestActivity(
+  username: string,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<ActivityEvidence | null> {
+  const candidates = await Promise.all([
+    orNull(searchEarliestIssue(username, 'pull_request', client)),
+    orNull(searchEarliestIssue(username, 'issue', client)),
+    orNull(fetchEarliestGist(username, client)),
+    orNull(fetchEarliestRepo(username, client)),
+  ]);
+
+  let earliest: ActivityEvidence | null = null;
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (!earliest || new Date(candidate.date).getTime() < new Date(earliest.date).getTime()) {
+      earliest = candidate;
+    }
+  }
+  return earliest;
+}
+
+/** Follows `rel="next"` links on the same instance, up to maxPages. */
+async function fetchPages(
+  url: string,
+  client: GitHubClient,
+  maxPages: number,
+): Promise<Array<Record<string, unknown>>> {
+  const items: Array<Record<string, unknown>> = [];
+  let next: string | undefined = url;
+  for (let page = 0; next && page < maxPages; page++) {
+    const response = await githubFetch(next, client);
+    items.push(...((await response.json()) as Array<Record<string, unknown>>));
+    next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+    if (next && !next.startsWith(client.apiUrl)) break;
+  }
+  return items;
+}
+
+/**
+ * Logins of an organization's public members, or of one team's members. Team membership
+ * is only visible to a token with access to the organization.
+ */
+export async function fetchOrgMembers(
+  org: string,
+  team?: string,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<string[]> {
+  const base = `${client.apiUrl}/orgs/${encodeURIComponent(org)}`;
+  const path = team ? `/teams/${encodeURIComponent(team)}/members` : '/public_members';
+  try {
+    const members = await fetchPages(
+      `${base}${path}?per_page=${MEMBER_PAGE_SIZE}`,
+      client,
+      MAX_MEMBER_PAGES,
+    );
+    return members.map((member) => member.login as string);
+  } catch (err) {
+    if (isNotFoundError(err) && team) {
+      throw notFoundError(
+        `Team '${team}' not found in ${org}. Listing team members needs a token with access to the organization.`,
+        { cause: err },
+      );
+    }
+    if (isNotFoundError(err)) {
+      throw notFoundError(`Organization '${org}' not found. Check the spelling?`, { cause: err });
+    }
+    throw err;
+  }
+}
+
+export async function fetchContributors(
+  repoFullName: string,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<RepoContributor[]> {
+  const items = await fetchPages(
+    `${client.apiUrl}/repos/${repoFullName}/contributors?anon=1&per_page=${MEMBER_PAGE_SIZE}`,
+    client,
+    MAX_CONTRIBUTOR_PAGES,
+  );
+
+  return items.map((item) => {
+    const login = (item.login as string | undefined) ?? null;
+    const isBot = item.type === 'Bot' || Boolean(login?.endsWith('[bot]'));
+    return {
+      login,
+      name: login ?? (item.name as string | undefined) ?? (item.email as string | undefined) ?? '',
+      kind: !login ? 'anonymous' : isBot ? 'bot' : 'user',
+      contributions: (item.contributions as number | undefined) ?? 0,
+    };
+  });
+}
+
+/** Re-fetches an activity item so verification can compare its author and date. */
+export async function fetchActivity(
+  activity: ActivityEvidence,
+  client: GitHubClient = PUBLIC_CLIENT,
+): Promise<ActivityDetail> {
+  let data: Record<string, unknown>;
+  let kind = activity.kind;
+  let author: Record<string, unknown> | null;
+
+  switch (activity.kind) {
+    case 'issue':
+    case 'pull_request': {
+      const url = `${client.apiUrl}/repos/${activity.ref}/issues/${activity.number ?? 0}`;
+      data = (await (await githubFetch(url, client)).json()) as Record<string, unknown>;
+      kind = data.pull_request ? 'pull_request' : 'issue';
+      author = data.user as Record<string, unknown> | null;
+      break;
+    }
+    case 'gist': {
+      const url = `${client.apiUrl}/gists/${encodeURIComponent(activity.ref)}`;
+      data = (await (await githubFetch(url, client)).json()) as Record<string, unknown>;
+      author = data.owner as Record<string, unknown> | null;
+      break;
+    }
+    case 'repo': {
+      const url = `${client.apiUrl}/repos/${activity.ref}`;
+      data = (await (await githubFetch(url, client)).json()) as Record<string, unknown>;
+      author = data.owner as Record<string, unknown> | null;
+      break;
+    }
+  }
+
+  return {
+    kind,
+    date: data.created_at as string,
+    authorLogin: (author?.login as string | undefined) ?? null,
+    authorId: (author?.id as number | undefined) ?? null,
+  };
+}
+
 export async function fetchCommit(
   repoFullName: string,
   sha: string,
-  token?: string,
+  client: GitHubClient = PUBLIC_CLIENT,
 ): Promise<CommitDetail> {
-  const url = `${GITHUB_API}/repos/${repoFullName}/commits/${sha}`;
-  const response = await githubFetch(url, token);
+  const url = `${client.apiUrl}/repos/${repoFullName}/commits/${sha}`;
+  const response = await githubFetch(url, client);
   const data = (await response.json()) as Record<string, unknown>;
 
   const commit = data.commit as Record<string, unknown>;
@@ -175,3 +590,38 @@ export async function fetchCommit(
     verified: Boolean(verification?.verified),
   };
 }
+
+export function createGitHubProvider(options: ForgeClientOptions = {}): ForgeProvider {
+  const client: GitHubClient = {
+    apiUrl: options.apiUrl ? normalizeGitHubApiUrl(options.apiUrl) : GITHUB_API,
+    token: options.token,
+    fetch: options.fetch,
+    retry: options.retry,
+  };
+  const isEnterprise = client.apiUrl !== GITHUB_API;
+
+  return {
+    kind: 'github',
+    name: isEnterprise ? 'GitHub Enterprise' : 'GitHub',
+    apiUrl: client.apiUrl,
+    fetchUser: (username) => fetchUser(username, client),
+    fetchUserById: (id) => fetchUserById(id, client),
+    fetchFirstCommit: (username) => fetchFirstCommit(username, client),
+    fetchEarliestCommits: (username, count) => fetchEarliestCommits(username, count, client),
+    fetchEarliestActivity: (username) => fetchEarliestActivity(username, client),
+    fetchActivity: (activity) => fetchActivity(activity, client),
+    fetchOrgMembers: (org, team) => fetchOrgMembers(org, team, client),
+    fetchContributors: (repoFullName) => fetchContributors(repoFullName, client),
+    fetchRepo: (repoFullName) => fetchRepo(repoFullName, client),
+    fetchCommit: (repoFullName, sha) => fetchCommit(repoFullName, sha, client),
+    matchesNoreplyEmail: (email, username) =>
+      matchesNoreplyPattern(
+        email,
+        username,
+        isEnterprise
+          ? `users.noreply.${new URL(client.apiUrl).hostname}`
+          : 'users.noreply.github.com',
+        '+',
+      ),
+  };
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createGitLabProvider } from './gitlab.ts';
+import { isNotFoundError, isTransientError } from './retry.ts';
+
+const API = 'https://gitlab.com/api/v4';
+const SHA = 'a'.repeat(40);
+
+type Route = (url: string) => Response | undefined;
+
+/** Provider whose fetch answers from a path-to-body map; unknown paths are 404s. */
+function fakeProvider(routes: Record<string, unknown | (() => Response)>) {
+  const urls: string[] = [];
+  const route: Route = (url) => {
+    const body = routes[url.slice(API.length)];
+    if (body === undefined) return undefined;
+    return typeof body === 'function'
+      ? (body as () => Response)()
+      : new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+  };
+  const fakeFetch = async (input: string | URL): Promise<Response> => {
+    urls.push(String(input));
+    return route(String(input)) ?? new Response('{}', { status: 404 });
+  };
+  return { provider: createGitLabProvider({ fetch: fakeFetch as typeof fetch }), urls };
+}
+
+function commitRoutes(email: string): Record<string, unknown> {
+  return {
+    [`/projects/alice%2Fold/repository/commits/${SHA}`]: {
+      id: SHA,
+      author_email: email,
+      committer_email: email,
+      authored_date: '2012-05-01T00:00:00Z',
+      committed_date: '2012-05-01T00:00:00Z',
+      parent_ids: [],
+      message: 'Initial commit\n\nbody',
+    },
+    [`/projects/alice%2Fold/repository/commits/${SHA}/signature`]: {
+      verification_status: 'unverified',
+    },
+  };
+}
+
+const alice = { id: 42, username: 'alice', name: 'Alice', created_at: '2010-03-01T00:00:00Z' };
+
+describe('GitLab commit author resolution', () => {
+  it('accepts a noreply address whose ID belongs to the named user', async () => {
+    const { provider } = fakeProvider({
+      ...commitRoutes('42-alice@users.noreply.gitlab.com'),
+      '/users/42': alice,
+    });
+    const commit = await provider.fetchCommit('alice/old', SHA);
+
+    assert.equal(commit.authorLogin, 'alice');
+    assert.equal(commit.authorId, 42);
+    assert.equal(commit.isRootCommit, true);
+    assert.equal(commit.message, 'Initial commit');
+  });
+
+  it('rejects a noreply address naming someone else', async () => {
+    const { provider } = fakeProvider({
+      ...commitRoutes('42-mallory@users.noreply.gitlab.com'),
+      '/users/42': alice,
+    });
+    const commit = await provider.fetchCommit('alice/old', SHA);
+
+    assert.equal(commit.authorLogin, null);
+    assert.equal(commit.authorId, null);
+  });
+
+  it('takes the one account whose public email matches exactly', async () => {
+    const { provider } = fakeProvider({
+      ...commitRoutes('Alice@example.com'),
+      '/users?search=Alice%40example.com': [
+        { id: 7, username: 'impostor', name: 'alice@example.com' },
+        { id: 42, username: 'alice', name: 'Alice' },
+      ],
+      '/users/7': { id: 7, username: 'impostor', public_email: '' },
+      '/users/42': { ...alice, public_email: 'alice@example.com' },
+    });
+    const commit = await provider.fetchCommit('alice/old', SHA);
+
+    assert.equal(commit.authorLogin, 'alice');
+    assert.equal(commit.authorId, 42);
+  });
+
+  it('leaves the author unresolved when the email is ambiguous', async () => {
+    const { provider } = fakeProvider({
+      ...commitRoutes('alice@example.com'),
+      '/users?search=alice%40example.com': [
+        { id: 7, username: 'impostor', public_email: 'alice@example.com' },
+        { id: 42, username: 'alice', public_email: 'alice@example.com' },
+      ],
+    });
+    const commit = await provider.fetchCommit('alice/old', SHA);
+
+    assert.equal(commit.authorLogin, null);
+    assert.equal(commit.committerLogin, null);
+  });
+
+  it('reports a rate limit while resolving as transient', async () => {
+    const { provider } = fakeProvider({
+      ...commitRoutes('alice@example.com'),
+      '/users?search=alice%40example.com': () => new Response('{}', { status: 429 }),
+    });
+
+    await assert.rejects(provider.fetchCommit('alice/old', SHA), (err) => isTransientError(err));
+  });
+});
+
+describe('GitLab users', () => {
+  it('looks a user up by username and reads the full profile', async () => {
+    const { provider, urls } = fakeProvider({
+      '/users?username=alice': [{ id: 42, username: 'alice' }],
+      '/users/42': alice,
+    });
+    const user = await provider.fetchUser('alice');
+
+    assert.deepEqual(user, {
+      login: 'alice',
+      id: 42,
+      name: 'Alice',
+      createdAt: '2010-03-01T00:00:00Z',
+    });
+    assert.equal(urls.length, 2);
+  });
+
+  it('reports an unknown username as not found', async () => {
+    const { provider } = fakeProvider({ '/users?username=nobody': [] });
+
+    await assert.rejects(provider.fetchUser('nobody'), (err) => {
+      assert.ok(isNotFoundError(err));
+      assert.match((err as Error).message, /'nobody' not found/);
+      return true;
+    });
+  });
+
+  it('refuses a custom API URL', () => {
+    assert.throws(
+      () => createGitLabProvider({ apiUrl: 'https://gitlab.example.com' }),
+      /not supported for GitLab/,
+    );
+  });
+});
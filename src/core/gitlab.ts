@@ -0,0 +1,350 @@
+/**
+ * @fileoverview GitLab API client using built-in fetch. Zero dependencies.
+ * GitLab has no cross-project commit search, so the first commit is found by
+ * walking the user's own and contributed projects.
+ */
+
+import type { CommitDetail, FirstCommit, ForgeUser, RepoInfo } from './types.ts';
+import type { ForgeClientOptions, ForgeProvider } from './forge.ts';
+import { CUTOFF_DATE } from './types.ts';
+import { GITLAB_API, matchesNoreplyPattern } from './instances.ts';
+import { getEffectiveCommitDate } from './proof.ts';
+import { isTransientError, notFoundError, transientError } from './retry.ts';
+
+const USER_AGENT = 'lastgen';
+const MAX_PROJECTS = 20;
+const MAX_COMMIT_PAGES = 5;
+const COMMITS_PER_PAGE = 100;
+const NOREPLY_DOMAIN = 'users.noreply.gitlab.com';
+
+interface GitLabProject {
+  id: number;
+  pathWithNamespace: string;
+  createdAt: string;
+}
+
+/** Connection settings shared by every GitLab request. */
+export interface GitLabClient {
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+function buildHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'User-Agent': USER_AGENT,
+  };
+  if (token) {
+    headers['PRIVATE-TOKEN'] = token;
+  }
+  return headers;
+}
+
+async function gitlabFetch(url: string, client: GitLabClient): Promise<Response> {
+  const fetchFn = client.fetch ?? fetch;
+  const response = await fetchFn(url, { headers: buildHeaders(client.token) });
+
+  if (response.status === 429) {
+    const resetTimestamp = response.headers.get('ratelimit-reset');
+    const resetDate = resetTimestamp
+      ? new Date(Number(resetTimestamp) * 1000).toLocaleTimeString()
+      : 'soon';
+    throw transientError(`GitLab API rate limit exceeded. Resets at ${resetDate}.`);
+  }
+
+  if (response.status === 404) {
+    throw notFoundError(`Not found: ${url}`);
+  }
+
+  if (response.status >= 500) {
+    throw transientError(`GitLab API unavailable: ${response.status} ${response.statusText}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`GitLab API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+async function gitlabJson<T>(path: string, client: GitLabClient): Promise<T> {
+  const response = await gitlabFetch(`${GITLAB_API}${path}`, client);
+  return (await response.json()) as T;
+}
+
+function parseUser(data: Record<string, unknown>): ForgeUser {
+  return {
+    login: data.username as string,
+    id: data.id as number,
+    name: (data.name as string | null) ?? null,
+    createdAt: data.created_at as string,
+  };
+}
+
+export async function fetchUser(username: string, client: GitLabClient = {}): Promise<ForgeUser> {
+  const users = await gitlabJson<Array<Record<string, unknown>>>(
+    `/users?username=${encodeURIComponent(username)}`,
+    client,
+  );
+  const match = users[0];
+  if (!match) {
+    throw notFoundError(`GitLab user '${username}' not found. Check the spelling?`);
+  }
+  // The list endpoint returns a reduced profile; the single-user endpoint has created_at.
+  return fetchUserById(match.id as number, client);
+}
+
+export async function fetchUserById(id: number, client: GitLabClient = {}): Promise<ForgeUser> {
+  return parseUser(await gitlabJson<Record<string, unknown>>(`/users/${id}`, client));
+}
+
+async function listUserProjects(userId: number, client: GitLabClient): Promise<GitLabProject[]> {
+  const query = `order_by=created_at&sort=asc&per_page=${MAX_PROJECTS}`;
+  const [owned, contributed] = await Promise.all([
+    gitlabJson<Array<Record<string, unknown>>>(`/users/${userId}/projects?${query}`, client),
+    gitlabJson<Array<Record<string, unknown>>>(
+      `/users/${userId}/contributed_projects?${query}`,
+      client,
+    ).catch(() => []),
+  ]);
+
+  const projects = new Map<number, GitLabProject>();
+  for (const data of [...owned, ...contributed]) {
+    if (data.empty_repo === true) continue;
+    projects.set(data.id as number, {
+      id: data.id as number,
+      pathWithNamespace: data.path_with_namespace as string,
+      createdAt: data.created_at as string,
+    });
+  }
+  return [...projects.values()];
+}
+
+function toFirstCommit(item: Record<string, unknown>, project: GitLabProject): FirstCommit {
+  return {
+    date: item.authored_date as string,
+    repo: project.pathWithNamespace,
+    sha: item.id as string,
+    message: ((item.title as string) ?? '').split('\n')[0] ?? '',
+    repoCreatedAt: project.createdAt,
+    committerDate: (item.committed_date as string | undefined) ?? undefined,
+  };
+}
+
+function commitTime(commit: FirstCommit): number {
+  return new Date(getEffectiveCommitDate(commit)).getTime();
+}
+
+/** Most recent commit by the author before the cutoff, or null. */
+async function findLatestPreCutoffCommit(
+  project: GitLabProject,
+  author: string,
+  client: GitLabClient,
+): Promise<FirstCommit | null> {
+  const items = await gitlabJson<Array<Record<string, unknown>>>(
+    `/projects/${project.id}/repository/commits?author=${encodeURIComponent(author)}` +
+      `&until=${encodeURIComponent(CUTOFF_DATE)}&per_page=1`,
+    client,
+  );
+  const item = items[0];
+  return item ? toFirstCommit(item, project) : null;
+}
+
+/** Oldest commit by the author within the first MAX_COMMIT_PAGES pages, or null. */
+async function findOldestCommit(
+  project: GitLabProject,
+  author: string,
+  client: GitLabClient,
+): Promise<FirstCommit | null> {
+  let oldest: Record<string, unknown> | undefined;
+  for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+    const items = await gitlabJson<Array<Record<string, unknown>>>(
+      `/projects/${project.id}/repository/commits?author=${encodeURIComponent(author)}` +
+        `&per_page=${COMMITS_PER_PAGE}&page=${page}`,
+      client,
+    );
+    oldest = items[items.length - 1] ?? oldest;
+    if (items.length < COMMITS_PER_PAGE) break;
+  }
+  return oldest ? toFirstCommit(oldest, project) : null;
+}
+
+async function searchProjects(
+  projects: GitLabProject[],
+  authors: string[],
+  find: (project: GitLabProject, author: string) => Promise<FirstCommit | null>,
+  pick: (a: FirstCommit, b: FirstCommit) => FirstCommit,
+): Promise<FirstCommit | null> {
+  let best: FirstCommit | null = null;
+  for (const project of projects) {
+    for (const author of authors) {
+      const commit = await find(project, author).catch((err: unknown) => {
+        if (isTransientError(err)) throw err;
+        return null;
+      });
+      if (commit) {
+        best = best ? pick(best, commit) : commit;
+        break;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Mirrors the GitHub search strategy: prefer the most recent commit before the cutoff,
+ * falling back to the oldest commit found. Commits are matched on author name, trying
+ * the display name and then the username.
+ */
+export async function fetchFirstCommit(
+  username: string,
+  client: GitLabClient = {},
+): Promise<FirstCommit | null> {
+  const user = await fetchUser(username, client);
+  const projects = await listUserProjects(user.id, client);
+  const authors = [...new Set([user.name, user.login].filter((a): a is string => Boolean(a)))];
+
+  return (
+    (await searchProjects(
+      projects,
+      authors,
+      (project, author) => findLatestPreCutoffCommit(project, author, client),
+      (a, b) => (commitTime(b) > commitTime(a) ? b : a),
+    )) ??
+    (await searchProjects(
+      projects,
+      authors,
+      (project, author) => findOldestCommit(project, author, client),
+      (a, b) => (commitTime(b) < commitTime(a) ? b : a),
+    ))
+  );
+}
+
+export async function fetchRepo(
+  repoFullName: string,
+  client: GitLabClient = {},
+): Promise<RepoInfo> {
+  const data = await gitlabJson<Record<string, unknown>>(
+    `/projects/${encodeURIComponent(repoFullName)}`,
+    client,
+  );
+
+  return {
+    fullName: data.path_with_namespace as string,
+    createdAt: (data.created_at as string | undefined) ?? null,
+  };
+}
+
+/**
+ * GitLab commits carry only a name and email, and both are whatever the committer typed.
+ * Resolve the email to an account only on an exact match: a noreply address must name
+ * the account its ID belongs to, and any other address must be the public email of
+ * exactly one account. Anything else stays unresolved so the identity checks fail.
+ */
+async function resolveCommitUser(
+  email: string | null,
+  client: GitLabClient,
+): Promise<{ login: string; id: number } | null> {
+  if (!email) return null;
+  const normalized = email.toLowerCase();
+
+  try {
+    const noreply = normalized.match(/^(\d+)-([^@]+)@users\.noreply\.gitlab\.com$/);
+    if (noreply?.[1] && noreply[2]) {
+      const user = await fetchUserById(Number(noreply[1]), client);
+      return user.login.toLowerCase() === noreply[2] ? { login: user.login, id: user.id } : null;
+    }
+
+    // search also matches names and usernames, so each hit's public email is confirmed.
+    const hits = await gitlabJson<Array<Record<string, unknown>>>(
+      `/users?search=${encodeURIComponent(email)}`,
+      client,
+    );
+    const matches: Array<{ login: string; id: number }> = [];
+    for (const hit of hits) {
+      const profile =
+        'public_email' in hit
+          ? hit
+          : await gitlabJson<Record<string, unknown>>(`/users/${hit.id as number}`, client);
+      const publicEmail = profile.public_email;
+      if (typeof publicEmail === 'string' && publicEmail.toLowerCase() === normalized) {
+        matches.push({ login: profile.username as string, id: profile.id as number });
+      }
+    }
+    return matches.length === 1 ? (matches[0] ?? null) : null;
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    return null;
+  }
+}
+
+async function fetchCommitSigned(
+  projectPath: string,
+  sha: string,
+  client: GitLabClient,
+): Promise<{ verified: boolean; reason: string | null }> {
+  try {
+    const data = await gitlabJson<Record<string, unknown>>(
+      `/projects/${projectPath}/repository/commits/${sha}/signature`,
+      client,
+    );
+    const status = (data.verification_status as string | undefined) ?? null;
+    return { verified: status === 'verified', reason: status };
+  } catch {
+    return { verified: false, reason: null };
+  }
+}
+
+export async function fetchCommit(
+  repoFullName: string,
+  sha: string,
+  client: GitLabClient = {},
+): Promise<CommitDetail> {
+  const projectPath = encodeURIComponent(repoFullName);
+  const data = await gitlabJson<Record<string, unknown>>(
+    `/projects/${projectPath}/repository/commits/${sha}`,
+    client,
+  );
+
+  const authorEmail = (data.author_email as string | undefined) ?? null;
+  const committerEmail = (data.committer_email as string | undefined) ?? null;
+  const author = await resolveCommitUser(authorEmail, client);
+  const committer =
+    committerEmail === authorEmail ? author : await resolveCommitUser(committerEmail, client);
+  const signature = await fetchCommitSigned(projectPath, sha, client);
+  const parents = data.parent_ids as Array<unknown> | undefined;
+
+  return {
+    sha: data.id as string,
+    authorLogin: author?.login ?? null,
+    committerLogin: committer?.login ?? null,
+    authorEmail,
+    authorDate: (data.authored_date as string | undefined) ?? null,
+    committerDate: (data.committed_date as string | undefined) ?? null,
+    authorId: author?.id ?? null,
+    verificationReason: signature.reason,
+    isRootCommit: Array.isArray(parents) && parents.length === 0,
+    message: ((data.message as string) ?? '').split('\n')[0] ?? '',
+    verified: signature.verified,
+  };
+}
+
+export function createGitLabProvider(options: ForgeClientOptions = {}): ForgeProvider {
+  if (options.apiUrl) {
+    throw new Error('Custom API URLs are not supported for GitLab.');
+  }
+
+  const client: GitLabClient = { token: options.token, fetch: options.fetch };
+  return {
+    kind: 'gitlab',
+    name: 'GitLab',
+    apiUrl: GITLAB_API,
+    fetchUser: (username) => fetchUser(username, client),
+    fetchUserById: (id) => fetchUserById(id, client),
+    fetchFirstCommit: (username) => fetchFirstCommit(username, client),
+    fetchRepo: (repoFullName) => fetchRepo(repoFullName, client),
+    fetchCommit: (repoFullName, sha) => fetchCommit(repoFullName, sha, client),
+    matchesNoreplyEmail: (email, username) =>
+      matchesNoreplyPattern(email, username, NOREPLY_DOMAIN, '-'),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Public instance URLs and noreply address patterns of each forge. Shared by
+ * forge.ts and the forge clients; imports nothing, so it can load in any order.
+ */
+
+import type { ForgeKind } from './types.ts';
+
+export const GITHUB_API = 'https://api.github.com';
+export const GITLAB_API = 'https://gitlab.com/api/v4';
+
+/** API URL of each forge's public instance. Gitea has none: it is always self-hosted. */
+export const PUBLIC_API_URLS: Partial<Record<ForgeKind, string>> = {
+  github: GITHUB_API,
+  gitlab: GITLAB_API,
+};
+
+/**
+ * Matches `<user>@<domain>` with an optional numeric ID prefix joined by `idSeparator`,
+ * e.g. `123+user@users.noreply.github.com` or `123-user@users.noreply.gitlab.com`.
+ */
+export function matchesNoreplyPattern(
+  email: string,
+  username: string,
+  domain: string,
+  idSeparator: string,
+): boolean {
+  const lower = email.toLowerCase();
+  const user = username.toLowerCase();
+  const pattern = new RegExp(
+    `^(\\d+${escapeRegex(idSeparator)})?${escapeRegex(user)}@${escapeRegex(domain)}$`,
+  );
+  return pattern.test(lower);
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
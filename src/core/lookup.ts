@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Lookup flow shared by the CLI commands and the web UI: fetch the account
+ * and its earliest evidence from a forge, then issue a certificate.
+ */
+
+import type { ActivityEvidence, Certificate, ForgeUser, HashFn } from './types.ts';
+import type { ForgeProvider } from './forge.ts';
+import type { CreateCertificateOptions } from './proof.ts';
+import { getInstanceApiUrl } from './forge.ts';
+import { createCertificate, createEvidenceCertificate } from './proof.ts';
+import { captureSnapshot } from './snapshot.ts';
+
+export interface LookupOptions {
+  signer?: CreateCertificateOptions['signer'];
+  /** Collect the earliest commits in this many distinct repos instead of a single commit. */
+  evidence?: number;
+  /** Evidence commits needed to back the proof date. Defaults to a majority. */
+  quorum?: number;
+  /** Embed the account, repo and commit data so the certificate can be verified offline. */
+  embedEvidence?: boolean;
+  policy?: CreateCertificateOptions['policy'];
+  onStatus?: (message: string) => void;
+}
+
+export async function lookupCertificate(
+  hashFn: HashFn,
+  provider: ForgeProvider,
+  username: string,
+  options: LookupOptions = {},
+): Promise<Certificate> {
+  const onStatus = options.onStatus ?? (() => {});
+  const certOptions: CreateCertificateOptions = {
+    signer: options.signer,
+    forge: provider.kind,
+    apiUrl: getInstanceApiUrl(provider),
+    policy: options.policy,
+  };
+
+  if (options.evidence !== undefined) {
+    if (!provider.fetchEarliestCommits) {
+      throw new Error(`Multi-evidence certificates are not supported for ${provider.name}.`);
+    }
+    const [user, commits] = await Promise.all([
+      provider.fetchUser(username),
+      provider.fetchEarliestCommits(username, options.evidence),
+    ]);
+    const quorum = options.quorum ?? Math.floor(options.evidence / 2) + 1;
+    const activity = commits.length === 0 ? await findActivity(provider, user, onStatus) : null;
+    const snapshot = options.embedEvidence
+      ? await captureSnapshot(provider, user, commits, activity)
+      : undefined;
+    return createEvidenceCertificate(hashFn, user, commits, quorum, {
+      ...certOptions,
+      activity,
+      snapshot,
+    });
+  }
+
+  const [user, firstCommit] = await Promise.all([
+    provider.fetchUser(username),
+    provider.fetchFirstCommit(username),
+  ]);
+  const activity = firstCommit ? null : await findActivity(provider, user, onStatus);
+  const snapshot = options.embedEvidence
+    ? await captureSnapshot(provider, user, firstCommit ? [firstCommit] : [], activity)
+    : undefined;
+  return createCertificate(hashFn, user, firstCommit, { ...certOptions, activity, snapshot });
+}
+
+/** Falls back to the earliest issue, pull request, gist or repo when no commit is found. */
+async function findActivity(
+  provider: ForgeProvider,
+  user: ForgeUser,
+  onStatus: (message: string) => void,
+): Promise<ActivityEvidence | null> {
+  if (!provider.fetchEarliestActivity) return null;
+  onStatus('No commits found. Looking for earliest issues, pull requests, gists and repos...');
+  return provider.fetchEarliestActivity(user.login);
+}
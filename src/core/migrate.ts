@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Upgrades certificates written by older versions to CERTIFICATE_VERSION.
+ * Hashed fields are never touched, so a migrated certificate keeps its hash and number.
+ */
+
+import type { Certificate } from './types.ts';
+import { CERTIFICATE_VERSION } from './types.ts';
+
+export interface MigrationResult {
+  certificate: Certificate;
+  /** Human-readable notes on what changed, empty when already current. */
+  changes: string[];
+}
+
+type Migration = (cert: Certificate, changes: string[]) => Certificate;
+
+/** 1.0 left `identity.forge` implicit for GitHub; 2.0 requires it on forge proofs. */
+function migrateV1(cert: Certificate, changes: string[]): Certificate {
+  const identity = { ...cert.identity };
+  if (!identity.forge && cert.proof.source?.kind !== 'local-git') {
+    identity.forge = 'github';
+    changes.push('Recorded identity.forge as github');
+  }
+  return { ...cert, version: '2.0', identity };
+}
+
+/** Keyed by the version each migration upgrades from. */
+const MIGRATIONS: Record<string, Migration> = {
+  '1.0': migrateV1,
+};
+
+export function migrateCertificate(cert: Certificate): MigrationResult {
+  const changes: string[] = [];
+  const signature = cert.verification.signature;
+  let current = cert;
+
+  while (current.version !== CERTIFICATE_VERSION) {
+    const migration = MIGRATIONS[current.version];
+    if (!migration) {
+      throw new Error(`Cannot migrate certificate version ${current.version}`);
+    }
+    const from = current.version;
+    current = migration(current, changes);
+    changes.push(`Upgraded version ${from} to ${current.version}`);
+  }
+
+  // The signature covers the whole document, so it can't survive an upgrade.
+  if (signature && changes.length > 0) {
+    const verification = { ...current.verification };
+    delete verification.signature;
+    current = { ...current, verification };
+    changes.push(`Removed the signature by key ${signature.keyId}; it covered the old version`);
+  }
+
+  return { certificate: current, changes };
+}
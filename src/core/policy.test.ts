@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  DEFAULT_POLICY,
+  TIERED_POLICY,
+  describeEra,
+  findPolicy,
+  parseEraPolicy,
+} from './policy.ts';
+import { classifyEra } from './proof.ts';
+
+const valid = {
+  id: 'acme',
+  eras: [
+    { key: 'EARLY', title: 'Early', description: 'Before 2015', before: '2015-01-01T00:00:00Z' },
+    { key: 'LATE', title: 'Late', description: 'Since 2015', label: 'Late' },
+  ],
+};
+
+function withEras(eras: unknown[]): unknown {
+  return { ...valid, eras };
+}
+
+describe('parseEraPolicy', () => {
+  it('keeps only the known fields', () => {
+    const policy = parseEraPolicy({ ...valid, comment: 'ignored' });
+    assert.deepEqual(policy, valid);
+  });
+
+  it('rejects ids of built-in policies and malformed ids', () => {
+    assert.throws(() => parseEraPolicy({ ...valid, id: 'tiered' }), /built-in policy/);
+    assert.throws(() => parseEraPolicy({ ...valid, id: 'Acme Eras' }), /must be lowercase/);
+  });
+
+  it('needs a cutoff on every era but the last, in order', () => {
+    const [early, late] = valid.eras;
+    assert.throws(() => parseEraPolicy(withEras([early])), /at least two eras/);
+    assert.throws(
+      () => parseEraPolicy(withEras([{ ...early, before: undefined }, late])),
+      /eras\[0\]\.before must be a non-empty string/,
+    );
+    assert.throws(
+      () => parseEraPolicy(withEras([early, { ...late, before: '2020-01-01' }])),
+      /last era and takes no before cutoff/,
+    );
+    assert.throws(
+      () =>
+        parseEraPolicy(
+          withEras([early, { ...early, key: 'MIDDLE', before: '2014-01-01T00:00:00Z' }, late]),
+        ),
+      /must be later than the era before it/,
+    );
+    assert.throws(
+      () => parseEraPolicy(withEras([{ ...early, before: 'soon' }, late])),
+      /not an ISO 8601 date/,
+    );
+  });
+
+  it('rejects duplicate and lowercase era keys', () => {
+    const [early, late] = valid.eras;
+    assert.throws(() => parseEraPolicy(withEras([early, { ...late, key: 'EARLY' }])), /used twice/);
+    assert.throws(() => parseEraPolicy(withEras([{ ...early, key: 'early' }, late])), /uppercase/);
+  });
+});
+
+describe('era classification', () => {
+  it('splits the tiered policy at Copilot, ChatGPT and the agent cutoff', () => {
+    assert.equal(classifyEra('2021-06-28T23:59:59Z', TIERED_POLICY), 'PRE_COPILOT');
+    assert.equal(classifyEra('2021-06-29T00:00:00Z', TIERED_POLICY), 'PRE_CHATGPT');
+    assert.equal(classifyEra('2022-11-30T00:00:00Z', TIERED_POLICY), 'LAST_GEN');
+    assert.equal(classifyEra('2030-01-01T00:00:00Z', TIERED_POLICY), 'AI_NATIVE');
+    assert.equal(classifyEra('2012-01-01T00:00:00Z', DEFAULT_POLICY), 'LAST_GEN');
+  });
+
+  it('finds built-in policies, and a custom one only by its id', () => {
+    const custom = parseEraPolicy(valid);
+    assert.equal(findPolicy(undefined), DEFAULT_POLICY);
+    assert.equal(findPolicy('tiered', custom), TIERED_POLICY);
+    assert.equal(findPolicy('acme', custom), custom);
+    assert.equal(findPolicy('acme'), undefined);
+  });
+
+  it('describes eras of unknown policies by their key', () => {
+    const known = describeEra({ era: 'AI_NATIVE' });
+    assert.equal(known.era.title, DEFAULT_POLICY.eras[1]?.title);
+    assert.equal(known.isLatest, true);
+
+    const unknown = describeEra({ era: 'EARLY', policy: 'acme' });
+    assert.equal(unknown.era.title, 'EARLY');
+    assert.equal(unknown.isLatest, false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Era policies: ordered cutoffs that classify a proof date into an era.
+ * A certificate records the id of the policy that issued it, so verification classifies
+ * against the same tiers. Platform-agnostic: custom policies arrive as parsed JSON.
+ */
+
+import type { Certificate, EraPolicy, EraTier } from './types.ts';
+import { CUTOFF_DATE, ERAS } from './types.ts';
+
+/** Before and after AI agents: the policy of certificates that record none. */
+export const DEFAULT_POLICY: EraPolicy = {
+  id: 'default',
+  eras: [
+    { key: 'LAST_GEN', ...ERAS.LAST_GEN, label: 'Last Gen', before: CUTOFF_DATE },
+    { key: 'AI_NATIVE', ...ERAS.AI_NATIVE, label: 'AI Native' },
+  ],
+};
+
+/** Splits the time before agents at GitHub Copilot's announcement and ChatGPT's launch. */
+export const TIERED_POLICY: EraPolicy = {
+  id: 'tiered',
+  eras: [
+    {
+      key: 'PRE_COPILOT',
+      title: 'Pre-Copilot Coder',
+      description: 'Wrote code before GitHub Copilot was announced',
+      label: 'Pre-Copilot',
+      before: '2021-06-29T00:00:00Z',
+    },
+    {
+      key: 'PRE_CHATGPT',
+      title: 'Pre-ChatGPT Coder',
+      description: 'Wrote code before ChatGPT launched',
+      label: 'Pre-ChatGPT',
+      before: '2022-11-30T00:00:00Z',
+    },
+    ...DEFAULT_POLICY.eras,
+  ],
+};
+
+export const BUILTIN_POLICIES: readonly EraPolicy[] = [DEFAULT_POLICY, TIERED_POLICY];
+
+const POLICY_ID = /^[a-z0-9][a-z0-9._-]*$/;
+const ERA_KEY = /^[A-Z][A-Z0-9_]*$/;
+
+export function getBuiltinPolicy(id: string): EraPolicy | undefined {
+  return BUILTIN_POLICIES.find((policy) => policy.id === id);
+}
+
+/**
+ * The policy a certificate names (the default when it names none): a built-in one, or
+ * `custom` when the ids match. Undefined when the policy is not known here.
+ */
+export function findPolicy(id: string | undefined, custom?: EraPolicy): EraPolicy | undefined {
+  const wanted = id ?? DEFAULT_POLICY.id;
+  return custom?.id === wanted ? custom : getBuiltinPolicy(wanted);
+}
+
+/** Policy id to record in a certificate: none for the default policy. */
+export function getPolicyId(policy: EraPolicy): string | undefined {
+  return policy.id === DEFAULT_POLICY.id ? undefined : policy.id;
+}
+
+export interface EraDescription {
+  era: EraTier;
+  /** The last era of the policy, after every cutoff. Renderers color it apart. */
+  isLatest: boolean;
+}
+
+/**
+ * Title and description of a certificate's era. A certificate from an unknown policy
+ * shows its era key, since its titles live in a policy file this reader doesn't have.
+ */
+export function describeEra(
+  cert: Pick<Certificate, 'era' | 'policy'>,
+  custom?: EraPolicy,
+): EraDescription {
+  const policy = findPolicy(cert.policy, custom);
+  const index = policy ? policy.eras.findIndex((era) => era.key === cert.era) : -1;
+  const era = policy?.eras[index];
+  if (!policy || !era) {
+    return {
+      era: { key: cert.era, title: cert.era, description: `Era of the ${cert.policy} policy` },
+      isLatest: false,
+    };
+  }
+  return { era, isLatest: index === policy.eras.length - 1 };
+}
+
+/**
+ * Checks a policy read from JSON and returns it with only the known fields. Every era but
+ * the last needs a `before` cutoff, later than the one before it.
+ */
+export function parseEraPolicy(data: unknown): EraPolicy {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid era policy: ${message}`);
+  };
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const text = (value: unknown, path: string): string =>
+    typeof value === 'string' && value.trim() !== ''
+      ? value
+      : fail(`${path} must be a non-empty string`);
+
+  if (!isRecord(data)) fail('expected a JSON object');
+  const policy = data as Record<string, unknown>;
+
+  const id = text(policy.id, 'id');
+  if (!POLICY_ID.test(id)) {
+    fail(`id "${id}" must be lowercase letters, digits, ".", "_" or "-"`);
+  }
+  if (getBuiltinPolicy(id)) {
+    fail(`id "${id}" belongs to a built-in policy`);
+  }
+  if (!Array.isArray(policy.eras) || policy.eras.length < 2) {
+    fail('eras must be an array of at least two eras');
+  }
+
+  const entries = policy.eras as unknown[];
+  const keys = new Set<string>();
+  let previousCutoff = -Infinity;
+  const eras = entries.map((entry, index): EraTier => {
+    const path = `eras[${index}]`;
+    if (!isRecord(entry)) fail(`${path} must be an object`);
+    const tier = entry as Record<string, unknown>;
+
+    const key = text(tier.key, `${path}.key`);
+    if (!ERA_KEY.test(key)) fail(`${path}.key "${key}" must be uppercase, like LAST_GEN`);
+    if (keys.has(key)) fail(`${path}.key "${key}" is used twice`);
+    keys.add(key);
+
+    const era: EraTier = {
+      key,
+      title: text(tier.title, `${path}.title`),
+      description: text(tier.description, `${path}.description`),
+    };
+    if (tier.label !== undefined) era.label = text(tier.label, `${path}.label`);
+
+    const isLast = index === entries.length - 1;
+    if (isLast) {
+      if (tier.before !== undefined) fail(`${path} is the last era and takes no before cutoff`);
+      return era;
+    }
+    const before = text(tier.before, `${path}.before`);
+    const cutoff = Date.parse(before);
+    if (Number.isNaN(cutoff)) fail(`${path}.before "${before}" is not an ISO 8601 date`);
+    if (cutoff <= previousCutoff) fail(`${path}.before must be later than the era before it`);
+    previousCutoff = cutoff;
+    era.before = before;
+    return era;
+  });
+
+  return { id, eras };
+}
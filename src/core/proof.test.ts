@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { FirstCommit, ForgeUser } from './types.ts';
+import { nodeHash } from '../hash.ts';
+import { TIERED_POLICY } from './policy.ts';
+import {
+  createCertificate,
+  createEvidenceCertificate,
+  generateCertificateHash,
+  generateCertificateNumber,
+  getHashScope,
+} from './proof.ts';
+
+const user: ForgeUser = {
+  login: 'alice',
+  id: 42,
+  name: 'Alice',
+  createdAt: '2010-03-01T00:00:00Z',
+};
+
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+};
+
+describe('certificate hash', () => {
+  it('matches v1 certificates when the scope is empty', async () => {
+    const hash = await generateCertificateHash(
+      nodeHash,
+      'alice',
+      42,
+      '2010-03-01T00:00:00Z',
+      'LAST_GEN',
+    );
+    assert.equal(hash, '3539ff4a32804ce68d88898ef80936969aa95bcec75ed236ee26133274eb9b16');
+  });
+
+  it('matches the certificate and covers its scope', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const hash = await generateCertificateHash(
+      nodeHash,
+      cert.identity.username,
+      cert.identity.githubId,
+      cert.proof.proofDate,
+      cert.era,
+      getHashScope(cert),
+    );
+    assert.equal(cert.verification.hash, `sha256:${hash}`);
+    assert.equal(cert.certificateNumber, generateCertificateNumber(hash));
+    assert.match(cert.certificateNumber, /^LGC-[0-9A-F]{4}-\d{6}$/);
+  });
+
+  it('leaves the default policy out of the scope and records others', async () => {
+    const plain = await createCertificate(nodeHash, user, commit);
+    const tiered = await createCertificate(nodeHash, user, commit, { policy: TIERED_POLICY });
+
+    assert.equal(plain.policy, undefined);
+    assert.equal(getHashScope(plain).policy, undefined);
+    assert.equal(tiered.policy, 'tiered');
+    assert.equal(tiered.era, 'PRE_COPILOT');
+    assert.notEqual(tiered.verification.hash, plain.verification.hash);
+  });
+});
+
+describe('multi-evidence certificates', () => {
+  const commits: FirstCommit[] = ['one', 'two', 'three'].map((repo, index) => ({
+    ...commit,
+    repo: `alice/${repo}`,
+    sha: `abc123${index}`,
+    date: `201${index + 1}-05-01T12:00:00Z`,
+  }));
+
+  it('backs the proof date with the quorum-th earliest commit', async () => {
+    const cert = await createEvidenceCertificate(nodeHash, user, commits, 2);
+
+    assert.equal(cert.proof.quorum, 2);
+    assert.equal(cert.proof.evidence?.length, 3);
+    assert.equal(cert.proof.firstCommit.repo, 'alice/two');
+  });
+
+  it('refuses to lower a quorum that too few commits can meet', async () => {
+    await assert.rejects(
+      createEvidenceCertificate(nodeHash, user, commits.slice(0, 2), 3),
+      /Only 2 of the 3 evidence commits/,
+    );
+  });
+});
@@ -3,17 +3,35 @@
  * Platform-agnostic: hash function is injected via HashFn.
  */
 
-import type { Certificate, EraKey, FirstCommit, GitHubUser, HashFn } from './types.ts';
+import type {
+  ActivityEvidence,
+  Certificate,
+  CertificateIdentity,
+  CertificateProof,
+  CertificateSigner,
+  EraPolicy,
+  EvidenceSnapshot,
+  FirstCommit,
+  ForgeKind,
+  ForgeUser,
+  HashFn,
+  LocalGitSource,
+} from './types.ts';
 
-import { CERTIFICATE_SALT, CERTIFICATE_VERSION, CUTOFF_DATE, THIRTY_DAYS_MS } from './types.ts';
+import { ACTIVITY_LABELS, CERTIFICATE_SALT, CERTIFICATE_VERSION, THIRTY_DAYS_MS } from './types.ts';
+import { DEFAULT_POLICY, getPolicyId } from './policy.ts';
 
-export function classifyEra(proofDate: string): EraKey {
-  const cutoff = new Date(CUTOFF_DATE).getTime();
+/** Key of the first era of `policy` whose cutoff is after the proof date. */
+export function classifyEra(proofDate: string, policy: EraPolicy = DEFAULT_POLICY): string {
   const date = new Date(proofDate).getTime();
-  return date < cutoff ? 'LAST_GEN' : 'AI_NATIVE';
+  const era = policy.eras.find((tier) => !tier.before || date < new Date(tier.before).getTime());
+  if (!era) {
+    throw new Error(`Era policy ${policy.id} has no era for ${proofDate}`);
+  }
+  return era.key;
 }
 
-export function resolveProofDate(user: GitHubUser, firstCommit: FirstCommit | null): string {
+export function resolveProofDate(user: ForgeUser, firstCommit: FirstCommit | null): string {
   if (!firstCommit) {
     return new Date().toISOString();
   }
@@ -32,7 +50,49 @@ export function resolveProofDate(user: GitHubUser, firstCommit: FirstCommit | nu
   return commitTime < accountTime ? effectiveDate : user.createdAt;
 }
 
-function getEffectiveCommitDate(commit: FirstCommit): string {
+/** Proof date backed by non-commit activity. Mirrors resolveProofDate's account clamp. */
+export function resolveActivityProofDate(user: ForgeUser, activity: ActivityEvidence): string {
+  const activityTime = new Date(activity.date).getTime();
+  const accountTime = new Date(user.createdAt).getTime();
+  return activityTime < accountTime ? activity.date : user.createdAt;
+}
+
+/**
+ * Resolves each evidence commit on its own and orders them by resolved date. The commit
+ * at position `quorum` sets the proof date, so at least `quorum` commits back it.
+ */
+export function resolveQuorumProof(
+  user: ForgeUser,
+  commits: FirstCommit[],
+  quorum: number,
+): { evidence: FirstCommit[]; quorumCommit: FirstCommit | null; proofDate: string } {
+  const resolved = commits
+    .map((commit) => ({ commit, proofDate: resolveProofDate(user, commit) }))
+    .sort((a, b) => new Date(a.proofDate).getTime() - new Date(b.proofDate).getTime());
+  const quorumEntry = resolved[Math.min(quorum, resolved.length) - 1];
+
+  return {
+    evidence: resolved.map((entry) => entry.commit),
+    quorumCommit: quorumEntry?.commit ?? null,
+    proofDate: quorumEntry?.proofDate ?? resolveProofDate(user, null),
+  };
+}
+
+/** Proof date for a local-git proof: the effective commit date, clamped to the root commit. */
+export function resolveLocalProofDate(firstCommit: FirstCommit): string {
+  const effectiveDate = getEffectiveCommitDate(firstCommit);
+  const repoTime = firstCommit.repoCreatedAt
+    ? new Date(firstCommit.repoCreatedAt).getTime()
+    : -Infinity;
+
+  if (new Date(effectiveDate).getTime() < repoTime) {
+    return firstCommit.repoCreatedAt ?? effectiveDate;
+  }
+
+  return effectiveDate;
+}
+
+export function getEffectiveCommitDate(commit: FirstCommit): string {
   if (!commit.committerDate) {
     return commit.date;
   }
@@ -47,18 +107,50 @@ function getEffectiveCommitDate(commit: FirstCommit): string {
   return commit.date;
 }
 
+/**
+ * Optional fields covered by the hash. Unset fields are left out of the payload,
+ * so hashes of certificates that don't use them stay unchanged.
+ */
+export interface HashScope {
+  source?: string;
+  forge?: string;
+  apiUrl?: string;
+  /** SHAs of the evidence commits, in certificate order. */
+  evidence?: string[];
+  quorum?: number;
+  /** `<kind>:<url>` of the activity item. */
+  activity?: string;
+  /** Era policy id, when not the default. */
+  policy?: string;
+}
+
+export function getHashScope(cert: Pick<Certificate, 'identity' | 'proof' | 'policy'>): HashScope {
+  const forge = cert.identity.forge;
+  return {
+    source: cert.proof.source?.kind,
+    forge: forge && forge !== 'github' ? forge : undefined,
+    apiUrl: cert.identity.apiUrl,
+    evidence: cert.proof.evidence?.map((commit) => commit.sha),
+    quorum: cert.proof.quorum,
+    activity: cert.proof.activity && `${cert.proof.activity.kind}:${cert.proof.activity.url}`,
+    policy: cert.policy,
+  };
+}
+
 export async function generateCertificateHash(
   hashFn: HashFn,
   username: string,
   githubId: number,
   proofDate: string,
-  era: EraKey,
+  era: string,
+  scope: HashScope = {},
 ): Promise<string> {
   const payload = JSON.stringify({
     username,
     githubId,
     proofDate,
     era,
+    ...scope,
     salt: CERTIFICATE_SALT,
   });
 
@@ -72,35 +164,175 @@ export function generateCertificateNumber(hash: string): string {
   return `LGC-${prefix}-${padded}`;
 }
 
+/** Derives a short, stable identifier for an issuer public key. */
+export async function getKeyId(hashFn: HashFn, publicKey: string): Promise<string> {
+  const digest = await hashFn(publicKey);
+  return digest.slice(0, 16);
+}
+
+/**
+ * Serializes a certificate for signing: every field except the signature itself,
+ * with object keys sorted so the payload does not depend on property order.
+ */
+export function getSigningPayload(cert: Certificate): string {
+  const verification = { ...cert.verification };
+  delete verification.signature;
+  return canonicalJson({ ...cert, verification });
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function signCertificate(
+  cert: Certificate,
+  signer: CertificateSigner,
+): Promise<Certificate> {
+  const value = await signer.sign(getSigningPayload(cert));
+  return {
+    ...cert,
+    verification: {
+      ...cert.verification,
+      signature: {
+        algorithm: 'ed25519',
+        keyId: signer.keyId,
+        publicKey: signer.publicKey,
+        value,
+      },
+    },
+  };
+}
+
+export interface CreateCertificateOptions {
+  signer?: CertificateSigner;
+  /** Forge the user and commit came from. Defaults to GitHub. */
+  forge?: ForgeKind;
+  /** API URL of the self-hosted instance the user was looked up on. */
+  apiUrl?: string;
+  /** Earliest non-commit activity, used only when no commit was found. */
+  activity?: ActivityEvidence | null;
+  /** Forge data to embed for offline verification. */
+  snapshot?: EvidenceSnapshot;
+  /** Era policy to classify the proof date with. Defaults to DEFAULT_POLICY. */
+  policy?: EraPolicy;
+}
+
 export async function createCertificate(
   hashFn: HashFn,
-  user: GitHubUser,
+  user: ForgeUser,
   firstCommit: FirstCommit | null,
+  options: CreateCertificateOptions = {},
 ): Promise<Certificate> {
-  const proofDate = resolveProofDate(user, firstCommit);
-  const era = classifyEra(proofDate);
-  const hash = await generateCertificateHash(hashFn, user.login, user.id, proofDate, era);
-  const certificateNumber = generateCertificateNumber(hash);
+  const activity = firstCommit ? null : options.activity;
+  const proof: CertificateProof = activity
+    ? {
+        accountCreated: user.createdAt,
+        firstCommit: noCommitPlaceholder(user, activity),
+        proofDate: resolveActivityProofDate(user, activity),
+        activity,
+      }
+    : {
+        accountCreated: user.createdAt,
+        firstCommit: firstCommit ?? noCommitPlaceholder(user),
+        proofDate: resolveProofDate(user, firstCommit),
+      };
+
+  return issueCertificate(hashFn, buildIdentity(user, options), proof, options);
+}
+
+/**
+ * Builds a certificate backed by several early commits in distinct repos. The proof date
+ * is the earliest date at least `quorum` of them support; see resolveQuorumProof.
+ * Throws when some commits were found but fewer than the quorum: a lower quorum would
+ * back the proof date with less evidence than was asked for.
+ */
+export async function createEvidenceCertificate(
+  hashFn: HashFn,
+  user: ForgeUser,
+  commits: FirstCommit[],
+  quorum: number,
+  options: CreateCertificateOptions = {},
+): Promise<Certificate> {
+  if (commits.length === 0) {
+    return createCertificate(hashFn, user, null, options);
+  }
+
+  if (commits.length < quorum) {
+    throw new Error(
+      `Only ${commits.length} of the ${quorum} evidence commits the quorum needs were found in distinct repos. Lower --quorum, or drop --evidence for a single-commit certificate.`,
+    );
+  }
+
+  const effectiveQuorum = Math.max(1, quorum);
+  const { evidence, quorumCommit, proofDate } = resolveQuorumProof(user, commits, effectiveQuorum);
+  const proof: CertificateProof = {
+    accountCreated: user.createdAt,
+    firstCommit: quorumCommit ?? noCommitPlaceholder(user),
+    proofDate,
+    evidence,
+    quorum: effectiveQuorum,
+  };
+
+  return issueCertificate(hashFn, buildIdentity(user, options), proof, options);
+}
+
+function buildIdentity(user: ForgeUser, options: CreateCertificateOptions): CertificateIdentity {
+  return {
+    username: user.login,
+    githubId: user.id,
+    name: user.name,
+    forge: options.forge ?? 'github',
+    apiUrl: options.apiUrl,
+  };
+}
 
+function noCommitPlaceholder(user: ForgeUser, activity?: ActivityEvidence): FirstCommit {
   return {
+    date: user.createdAt,
+    repo: '',
+    sha: '',
+    message: activity
+      ? `(no public commits found - using earliest ${ACTIVITY_LABELS[activity.kind].toLowerCase()})`
+      : '(no public commits found - using account creation date)',
+  };
+}
+
+/** Classifies, hashes, numbers, and optionally signs a certificate for the given proof. */
+async function issueCertificate(
+  hashFn: HashFn,
+  identity: CertificateIdentity,
+  proof: CertificateProof,
+  options: CreateCertificateOptions,
+): Promise<Certificate> {
+  const eraPolicy = options.policy ?? DEFAULT_POLICY;
+  const era = classifyEra(proof.proofDate, eraPolicy);
+  const policy = getPolicyId(eraPolicy);
+  const hash = await generateCertificateHash(
+    hashFn,
+    identity.username,
+    identity.githubId,
+    proof.proofDate,
+    era,
+    getHashScope({ identity, proof, policy }),
+  );
+  const certificateNumber = generateCertificateNumber(hash);
+
+  const cert: Certificate = {
     version: CERTIFICATE_VERSION,
     type: 'LASTGEN_CERTIFICATE',
-    identity: {
-      username: user.login,
-      githubId: user.id,
-      name: user.name,
-    },
-    proof: {
-      accountCreated: user.createdAt,
-      firstCommit: firstCommit ?? {
-        date: user.createdAt,
-        repo: '',
-        sha: '',
-        message: '(no public commits found - using account creation date)',
-      },
-      proofDate,
-    },
+    identity,
+    proof: options.snapshot ? { ...proof, snapshot: options.snapshot } : proof,
     era,
+    policy,
     verification: {
       hash: `sha256:${hash}`,
       salt: CERTIFICATE_SALT,
@@ -108,4 +340,35 @@ export async function createCertificate(
     certificateNumber,
     issuedAt: new Date().toISOString(),
   };
+
+  return options.signer ? signCertificate(cert, options.signer) : cert;
+}
+
+export interface LocalIdentity {
+  username: string;
+  name: string | null;
+}
+
+/**
+ * Builds a certificate from a commit found in a local clone. There is no forge account,
+ * so the proof date comes from the commit alone and githubId is 0.
+ */
+export async function createLocalCertificate(
+  hashFn: HashFn,
+  identity: LocalIdentity,
+  firstCommit: FirstCommit,
+  source: LocalGitSource,
+  options: CreateCertificateOptions = {},
+): Promise<Certificate> {
+  return issueCertificate(
+    hashFn,
+    { username: identity.username, githubId: 0, name: identity.name },
+    {
+      accountCreated: '',
+      firstCommit,
+      proofDate: resolveLocalProofDate(firstCommit),
+      source,
+    },
+    options,
+  );
 }
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Retry policy for forge clients, and the transient and not-found errors that
+ * tell an outage or rate limit apart from a genuine "nothing found".
+ */
+
+export interface RetryPolicy {
+  /** Retries after a network error, server error or secondary rate limit. */
+  retries: number;
+  /** Sleep until an exhausted rate limit resets instead of failing. */
+  waitForRateLimit: boolean;
+  /** Called before each pause, with the reason. */
+  onRetry?: (message: string) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, waitForRateLimit: false };
+
+const TRANSIENT_ERROR_NAME = 'TransientForgeError';
+const NOT_FOUND_ERROR_NAME = 'ForgeNotFoundError';
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Error for a failure that says nothing about the user, e.g. a rate limit or an outage.
+ * Lookups must surface it rather than read it as "no commits found".
+ */
+export function transientError(message: string, options?: { cause?: unknown }): Error {
+  const err = new Error(message, options);
+  err.name = TRANSIENT_ERROR_NAME;
+  return err;
+}
+
+export function isTransientError(err: unknown): boolean {
+  return err instanceof Error && err.name === TRANSIENT_ERROR_NAME;
+}
+
+/** Error for a user, repo or other item the forge reports as missing (a 404). */
+export function notFoundError(message: string, options?: { cause?: unknown }): Error {
+  const err = new Error(message, options);
+  err.name = NOT_FOUND_ERROR_NAME;
+  return err;
+}
+
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof Error && err.name === NOT_FOUND_ERROR_NAME;
+}
+
+/** Exponential backoff: 1s, 2s, 4s... capped at 30s. */
+export function backoffDelay(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => globalThis.setTimeout(resolve, Math.max(0, ms)));
+}
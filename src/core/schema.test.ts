@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Certificate, FirstCommit, ForgeUser } from './types.ts';
+import { nodeHash } from '../hash.ts';
+import { migrateCertificate } from './migrate.ts';
+import { createCertificate } from './proof.ts';
+import { formatSchemaErrors, validateCertificate } from './schema.ts';
+import { verifyCertificateData } from './verify.ts';
+
+const user: ForgeUser = { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' };
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+  repoCreatedAt: '2012-04-30T00:00:00Z',
+};
+
+function withIdentity(cert: Certificate, identity: Record<string, unknown>): unknown {
+  return { ...cert, identity: { ...cert.identity, ...identity } };
+}
+
+/** A 1.0 certificate: GitHub was implied, so identity.forge is absent. */
+function asV1(cert: Certificate): Certificate {
+  const identity = { ...cert.identity };
+  delete identity.forge;
+  return { ...cert, version: '1.0', identity };
+}
+
+describe('validateCertificate', () => {
+  it('accepts a freshly issued certificate', async () => {
+    assert.deepEqual(validateCertificate(await createCertificate(nodeHash, user, commit)), []);
+  });
+
+  it('reports every bad field with its path', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const broken = {
+      ...cert,
+      proof: { ...cert.proof, proofDate: 'yesterday', firstCommit: { ...commit, sha: 42 } },
+      era: 'last gen',
+    };
+
+    const paths = validateCertificate(broken).map((error) => error.path);
+    assert.ok(paths.includes('$.proof.proofDate'));
+    assert.ok(paths.includes('$.proof.firstCommit.sha'));
+    assert.ok(paths.includes('$.era'));
+  });
+
+  it('rejects unsupported versions before looking at fields', () => {
+    assert.deepEqual(formatSchemaErrors(validateCertificate({ version: '9.0' })), [
+      '$.version: unsupported version "9.0", expected one of 1.0, 2.0',
+    ]);
+  });
+
+  it('requires identity.forge since 2.0 but not in 1.0', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+
+    assert.deepEqual(validateCertificate(asV1(cert)), []);
+    assert.deepEqual(formatSchemaErrors(validateCertificate({ ...asV1(cert), version: '2.0' })), [
+      '$.identity.forge: is required since version 2.0',
+    ]);
+  });
+
+  it('requires an http(s) API URL for Gitea and none for GitLab', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const errors = (identity: Record<string, unknown>) =>
+      formatSchemaErrors(validateCertificate(withIdentity(cert, identity)));
+
+    assert.deepEqual(errors({ forge: 'gitea', apiUrl: 'https://git.example.com/api/v1' }), []);
+    assert.deepEqual(errors({ forge: 'gitea' }), [
+      '$.identity.apiUrl: is required for Gitea certificates',
+    ]);
+    assert.equal(errors({ forge: 'gitea', apiUrl: 'file:///etc/passwd' }).length, 1);
+    assert.deepEqual(errors({ forge: 'gitlab', apiUrl: 'https://gitlab.example.com' }), [
+      '$.identity.apiUrl: is not supported for GitLab certificates',
+    ]);
+  });
+});
+
+describe('migrateCertificate', () => {
+  it('upgrades 1.0 to the current version without breaking the hash', async () => {
+    const cert = asV1(await createCertificate(nodeHash, user, commit));
+    const { certificate, changes } = migrateCertificate(cert);
+
+    assert.equal(certificate.version, '2.0');
+    assert.equal(certificate.identity.forge, 'github');
+    assert.deepEqual(changes, ['Recorded identity.forge as github', 'Upgraded version 1.0 to 2.0']);
+    assert.deepEqual(validateCertificate(certificate), []);
+
+    const result = await verifyCertificateData(certificate, nodeHash, { offline: true });
+    assert.equal(result.results.find((check) => check.check === 'Hash integrity')?.passed, true);
+  });
+
+  it('leaves a current certificate alone', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+
+    assert.deepEqual(migrateCertificate(cert), { certificate: cert, changes: [] });
+  });
+
+  it('refuses versions it has no migration for', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+
+    assert.throws(
+      () => migrateCertificate({ ...cert, version: '0.9' }),
+      /Cannot migrate certificate version 0\.9/,
+    );
+  });
+});
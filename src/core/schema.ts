@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Field-level certificate validation. Reports every problem with a JSON path,
+ * e.g. `$.proof.firstCommit.sha`, so a malformed file gets a clean error instead of a crash
+ * deep inside verification. Mirrors schema/certificate.schema.json.
+ */
+
+import { ACTIVITY_LABELS, SUPPORTED_CERTIFICATE_VERSIONS } from './types.ts';
+import { FORGE_KINDS } from './forge.ts';
+
+export interface SchemaError {
+  /** JSON path of the offending value, e.g. `$.proof.evidence[2].date`. */
+  path: string;
+  message: string;
+}
+
+type Validator = (value: unknown, path: string, errors: SchemaError[]) => void;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function string(pattern?: RegExp, patternName?: string): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push({ path, message: `expected string, got ${describe(value)}` });
+    } else if (pattern && !pattern.test(value)) {
+      errors.push({ path, message: `expected ${patternName ?? pattern.source}, got "${value}"` });
+    }
+  };
+}
+
+const nonEmptyString = string(/./, 'a non-empty string');
+const sha256Hash = string(/^sha256:[0-9a-f]{64}$/, 'sha256:<64 hex digits>');
+const certificateNumber = string(/^LGC-[0-9A-F]{4}-\d{6}$/, 'LGC-XXXX-NNNNNN');
+
+function date(allowEmpty = false): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push({ path, message: `expected date string, got ${describe(value)}` });
+    } else if (!(allowEmpty && value === '') && Number.isNaN(Date.parse(value))) {
+      errors.push({ path, message: `expected ISO 8601 date, got "${value}"` });
+    }
+  };
+}
+
+function integer(min: number): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      errors.push({ path, message: `expected integer >= ${min}, got ${JSON.stringify(value)}` });
+    }
+  };
+}
+
+/** An absolute http(s) URL, such as a self-hosted forge's API URL. */
+const httpUrl: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push({ path, message: `expected URL string, got ${describe(value)}` });
+    return;
+  }
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(value).protocol;
+  } catch {
+    protocol = undefined;
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    errors.push({ path, message: `expected an http(s) URL, got "${value}"` });
+  }
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push({ path, message: `expected boolean, got ${describe(value)}` });
+  }
+};
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      errors.push({
+        path,
+        message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`,
+      });
+    }
+  };
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path, errors) => {
+    if (value !== null) validator(value, path, errors);
+  };
+}
+
+function array(item: Validator, minItems = 0): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push({ path, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    if (value.length < minItems) {
+      errors.push({ path, message: `expected at least ${minItems} items, got ${value.length}` });
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors));
+  };
+}
+
+/** Unknown fields are allowed, so newer certificates still validate in older readers. */
+function object(
+  required: Record<string, Validator>,
+  optional: Record<string, Validator> = {},
+): Validator {
+  return (value, path, errors) => {
+    if (!isRecord(value)) {
+      errors.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    for (const [key, validator] of Object.entries(required)) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      } else {
+        validator(value[key], `${path}.${key}`, errors);
+      }
+    }
+    for (const [key, validator] of Object.entries(optional)) {
+      if (value[key] !== undefined) {
+        validator(value[key], `${path}.${key}`, errors);
+      }
+    }
+  };
+}
+
+const activityKind = oneOf(Object.keys(ACTIVITY_LABELS));
+
+const forgeUser = object({
+  login: nonEmptyString,
+  id: integer(0),
+  name: nullable(string()),
+  createdAt: date(),
+});
+
+const firstCommit = object(
+  { date: date(), repo: string(), sha: string(), message: string() },
+  { repoCreatedAt: date(), committerDate: date() },
+);
+
+const activityEvidence = object(
+  { kind: activityKind, date: date(), ref: nonEmptyString, title: string(), url: nonEmptyString },
+  { number: integer(1) },
+);
+
+const activityDetail = object({
+  kind: activityKind,
+  date: date(),
+  authorLogin: nullable(string()),
+  authorId: nullable(integer(0)),
+});
+
+const commitDetail = object({
+  sha: nonEmptyString,
+  authorLogin: nullable(string()),
+  committerLogin: nullable(string()),
+  authorEmail: nullable(string()),
+  authorDate: nullable(date()),
+  committerDate: nullable(date()),
+  authorId: nullable(integer(0)),
+  verificationReason: nullable(string()),
+  isRootCommit: boolean,
+  message: string(),
+  verified: boolean,
+});
+
+const snapshot = object(
+  {
+    capturedAt: date(),
+    account: forgeUser,
+    repos: array(object({ fullName: nonEmptyString, createdAt: nullable(date()) })),
+    commits: array(commitDetail),
+  },
+  { activity: activityDetail },
+);
+
+const signature = object({
+  algorithm: oneOf(['ed25519']),
+  keyId: nonEmptyString,
+  publicKey: nonEmptyString,
+  value: nonEmptyString,
+});
+
+const certificate = object(
+  {
+    version: string(),
+    type: oneOf(['LASTGEN_CERTIFICATE']),
+    identity: object(
+      { username: nonEmptyString, githubId: integer(0), name: nullable(string()) },
+      { forge: oneOf(FORGE_KINDS), apiUrl: httpUrl },
+    ),
+    proof: object(
+      { accountCreated: date(true), firstCommit, proofDate: date() },
+      {
+        source: object({ kind: oneOf(['local-git']), emails: array(nonEmptyString, 1) }),
+        evidence: array(firstCommit, 1),
+        quorum: integer(1),
+        activity: activityEvidence,
+        snapshot,
+      },
+    ),
+    era: string(/^[A-Z][A-Z0-9_]*$/, 'an era key like LAST_GEN'),
+    verification: object({ hash: sha256Hash, salt: nonEmptyString }, { signature }),
+    certificateNumber,
+    issuedAt: date(),
+  },
+  { policy: string(/^[a-z0-9][a-z0-9._-]*$/, 'an era policy id like tiered') },
+);
+
+/** Checks every field of a parsed certificate. Returns an empty list when it is valid. */
+export function validateCertificate(data: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  if (!isRecord(data)) {
+    return [{ path: '$', message: `expected object, got ${describe(data)}` }];
+  }
+
+  const version = data.version;
+  if (typeof version !== 'string' || !SUPPORTED_CERTIFICATE_VERSIONS.includes(version)) {
+    errors.push({
+      path: '$.version',
+      message: `unsupported version ${JSON.stringify(version)}, expected one of ${SUPPORTED_CERTIFICATE_VERSIONS.join(', ')}`,
+    });
+    return errors;
+  }
+
+  certificate(data, '$', errors);
+
+  // Since 2.0, forge proofs name their forge instead of implying GitHub.
+  const identity = data.identity as Record<string, unknown> | undefined;
+  const proof = data.proof as Record<string, unknown> | undefined;
+  const isLocal = isRecord(proof?.source) && proof.source.kind === 'local-git';
+  if (version !== '1.0' && isRecord(identity) && !isLocal && identity.forge === undefined) {
+    errors.push({ path: '$.identity.forge', message: 'is required since version 2.0' });
+  }
+  // Gitea is always self-hosted, and GitLab certificates come from gitlab.com only.
+  if (isRecord(identity) && identity.forge === 'gitea' && identity.apiUrl === undefined) {
+    errors.push({ path: '$.identity.apiUrl', message: 'is required for Gitea certificates' });
+  }
+  if (isRecord(identity) && identity.forge === 'gitlab' && identity.apiUrl !== undefined) {
+    errors.push({ path: '$.identity.apiUrl', message: 'is not supported for GitLab certificates' });
+  }
+
+  return errors;
+}
+
+/** One line per error, e.g. `$.proof.proofDate: is required`. */
+export function formatSchemaErrors(errors: SchemaError[]): string[] {
+  return errors.map((error) => `${error.path}: ${error.message}`);
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Self-verifying share links: the whole certificate, compressed and
+ * base64url-encoded, in the URL fragment. Opening one shows the exact certificate that was
+ * shared and verifies it, instead of re-running the lookup.
+ */
+
+import type { LinkCodec } from './types.ts';
+
+/** The hosted web UI, which decodes and verifies the linked certificate. */
+export const WEB_APP_URL = 'https://pgagnidze.github.io/lastgen/';
+
+const FRAGMENT_KEY = 'cert';
+
+/** Upper bound on an inflated certificate, so a crafted link can't exhaust memory. */
+export const MAX_INFLATED_BYTES = 4 * 1024 * 1024;
+
+/** Whether `value` is a URL (or bare fragment) carrying an encoded certificate. */
+export function isCertificateLink(value: string): boolean {
+  return getLinkPayload(value) !== null;
+}
+
+function getLinkPayload(link: string): string | null {
+  const hashIndex = link.indexOf('#');
+  if (hashIndex === -1) return null;
+  for (const part of link.slice(hashIndex + 1).split('&')) {
+    const [key, value] = part.split('=', 2);
+    if (key === FRAGMENT_KEY && value) return value;
+  }
+  return null;
+}
+
+/** Link to `baseUrl` with the certificate in the fragment. Any existing fragment is replaced. */
+export async function encodeCertificateLink(
+  cert: unknown,
+  codec: LinkCodec,
+  baseUrl: string = WEB_APP_URL,
+): Promise<string> {
+  const hashIndex = baseUrl.indexOf('#');
+  const base = hashIndex === -1 ? baseUrl : baseUrl.slice(0, hashIndex);
+  return `${base}#${FRAGMENT_KEY}=${await codec.pack(JSON.stringify(cert))}`;
+}
+
+/**
+ * Decodes the certificate JSON in a link. The result is untrusted input: check it with
+ * validateCertificate before use.
+ */
+export async function decodeCertificateLink(link: string, codec: LinkCodec): Promise<unknown> {
+  const payload = getLinkPayload(link);
+  if (!payload) {
+    throw new Error(`Link has no #${FRAGMENT_KEY}= certificate`);
+  }
+  let json: string;
+  try {
+    json = await codec.unpack(payload);
+  } catch (err) {
+    throw new Error('Link certificate is corrupted or truncated', { cause: err });
+  }
+  try {
+    return JSON.parse(json) as unknown;
+  } catch (err) {
+    throw new Error('Link certificate is not valid JSON', { cause: err });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Evidence snapshots: forge data captured at issue time and embedded in the
+ * certificate, and a provider that replays it so verification can run offline.
+ */
+
+import type {
+  ActivityEvidence,
+  Certificate,
+  EvidenceSnapshot,
+  FirstCommit,
+  ForgeUser,
+} from './types.ts';
+import type { ForgeProvider } from './forge.ts';
+import { createForgeProvider } from './forge.ts';
+
+/** Fetches the repo and commit details behind each proof commit, plus the activity item. */
+export async function captureSnapshot(
+  provider: ForgeProvider,
+  user: ForgeUser,
+  commits: FirstCommit[],
+  activity: ActivityEvidence | null,
+): Promise<EvidenceSnapshot> {
+  const snapshot: EvidenceSnapshot = {
+    capturedAt: new Date().toISOString(),
+    account: user,
+    repos: [],
+    commits: [],
+  };
+  for (const commit of commits) {
+    snapshot.repos.push(await provider.fetchRepo(commit.repo));
+    snapshot.commits.push(await provider.fetchCommit(commit.repo, commit.sha));
+  }
+  if (activity && provider.fetchActivity) {
+    snapshot.activity = await provider.fetchActivity(activity);
+  }
+  return snapshot;
+}
+
+function notCaptured(what: string): Promise<never> {
+  return Promise.reject(new Error(`${what} is not in the embedded snapshot`));
+}
+
+/**
+ * Provider that answers from a certificate's snapshot instead of the network. It keeps
+ * the issuing forge's kind, instance and noreply rules, so the regular checks run as-is.
+ */
+export function createSnapshotProvider(
+  cert: Certificate,
+  snapshot: EvidenceSnapshot,
+): ForgeProvider {
+  const forge = createForgeProvider(cert.identity.forge ?? 'github', {
+    apiUrl: cert.identity.apiUrl,
+  });
+  const sameRepo = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+  return {
+    kind: forge.kind,
+    name: `${forge.name} snapshot`,
+    apiUrl: forge.apiUrl,
+    fetchUser: () => notCaptured('User lookup'),
+    fetchUserById: async (id) =>
+      snapshot.account.id === id ? snapshot.account : notCaptured(`Account ${id}`),
+    fetchFirstCommit: () => notCaptured('Commit search'),
+    fetchActivity: async (activity) => snapshot.activity ?? notCaptured(`Activity ${activity.url}`),
+    fetchRepo: async (repoFullName) =>
+      snapshot.repos.find((repo) => sameRepo(repo.fullName, repoFullName)) ??
+      notCaptured(`Repo ${repoFullName}`),
+    fetchCommit: async (repoFullName, sha) =>
+      snapshot.commits.find((commit) => commit.sha === sha) ??
+      notCaptured(`Commit ${repoFullName}@${sha.slice(0, 7)}`),
+    matchesNoreplyEmail: forge.matchesNoreplyEmail,
+  };
+}
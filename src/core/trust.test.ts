@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { CommitDetail, FirstCommit, ForgeUser } from './types.ts';
+import { nodeHash } from '../hash.ts';
+import { createCertificate } from './proof.ts';
+import { assessTrust, scoreSnapshotTrust } from './trust.ts';
+
+const user: ForgeUser = { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' };
+
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+  repoCreatedAt: '2012-04-30T00:00:00Z',
+};
+
+const strong: CommitDetail = {
+  sha: commit.sha,
+  authorLogin: 'alice',
+  committerLogin: 'alice',
+  authorEmail: 'alice@users.noreply.github.com',
+  authorDate: commit.date,
+  committerDate: commit.date,
+  authorId: 42,
+  verificationReason: 'valid',
+  isRootCommit: true,
+  message: commit.message,
+  verified: true,
+};
+
+const weak: CommitDetail = {
+  ...strong,
+  authorEmail: 'alice@example.com',
+  committerDate: '2014-01-01T00:00:00Z',
+  isRootCommit: false,
+  verified: false,
+};
+
+const matchesNoreply = (email: string, username: string): boolean =>
+  email === `${username}@users.noreply.github.com`;
+
+describe('assessTrust', () => {
+  it('adds every signal up to a strong 100', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const trust = assessTrust(cert, [{ commit, detail: strong }], matchesNoreply);
+
+    assert.equal(trust?.score, 100);
+    assert.equal(trust?.level, 'strong');
+  });
+
+  it('keeps only the self-owned repo points for a weak commit in a third-party repo', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const own = assessTrust(cert, [{ commit, detail: weak }], matchesNoreply);
+    const elsewhere = assessTrust(
+      cert,
+      [{ commit: { ...commit, repo: 'torvalds/linux' }, detail: weak }],
+      matchesNoreply,
+    );
+
+    assert.equal(own?.score, 15);
+    assert.equal(elsewhere?.score, 0);
+    assert.equal(elsewhere?.level, 'weak');
+  });
+
+  it('weighs evidence commits in proportion', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const trust = assessTrust(
+      cert,
+      [
+        { commit, detail: strong },
+        { commit, detail: weak },
+      ],
+      matchesNoreply,
+    );
+
+    assert.equal(trust?.score, 58);
+    assert.equal(trust?.level, 'moderate');
+    assert.equal(assessTrust(cert, [], matchesNoreply), null);
+  });
+});
+
+describe('scoreSnapshotTrust', () => {
+  it('scores from the embedded snapshot, and not without one', async () => {
+    const snapshot = {
+      capturedAt: '2026-01-01T00:00:00Z',
+      account: user,
+      repos: [],
+      commits: [strong],
+    };
+    const withSnapshot = await createCertificate(nodeHash, user, commit, { snapshot });
+    const without = await createCertificate(nodeHash, user, commit);
+
+    assert.equal(scoreSnapshotTrust(withSnapshot, matchesNoreply)?.score, 100);
+    assert.equal(scoreSnapshotTrust(without, matchesNoreply), null);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Trust score: how strongly a certificate's proof commits tie the account to
+ * the claimed date. Weighs signals gathered while verifying (root commit, GPG signature,
+ * repo ownership, author/committer drift, noreply email) into a 0-100 score, so a strong
+ * certificate can be told apart from one that barely passes.
+ */
+
+import type {
+  Certificate,
+  CommitDetail,
+  FirstCommit,
+  TrustLevel,
+  TrustScore,
+  TrustSignal,
+} from './types.ts';
+import { THIRTY_DAYS_MS } from './types.ts';
+import type { ForgeProvider } from './forge.ts';
+
+/** Points per signal; they add up to 100. */
+const TRUST_WEIGHTS = {
+  rootCommit: 20,
+  gpgSigned: 25,
+  selfOwned: 15,
+  dateConsistency: 20,
+  noreplyEmail: 20,
+} as const;
+
+const STRONG_SCORE = 70;
+const MODERATE_SCORE = 40;
+
+/** A proof commit together with the details fetched for it. */
+export interface TrustCommit {
+  commit: FirstCommit;
+  detail: CommitDetail;
+}
+
+function trustLevel(score: number): TrustLevel {
+  if (score >= STRONG_SCORE) return 'strong';
+  if (score >= MODERATE_SCORE) return 'moderate';
+  return 'weak';
+}
+
+function hasConsistentDates(detail: CommitDetail): boolean {
+  if (!detail.authorDate || !detail.committerDate) return false;
+  const driftMs = Math.abs(
+    new Date(detail.committerDate).getTime() - new Date(detail.authorDate).getTime(),
+  );
+  return driftMs <= THIRTY_DAYS_MS;
+}
+
+/**
+ * Scores the proof commits. With several evidence commits each signal counts in proportion
+ * to how many commits show it. Returns null when there is no commit to assess.
+ */
+export function assessTrust(
+  cert: Certificate,
+  commits: TrustCommit[],
+  matchesNoreplyEmail: ForgeProvider['matchesNoreplyEmail'],
+): TrustScore | null {
+  if (commits.length === 0) return null;
+
+  const username = cert.identity.username.toLowerCase();
+  const tests: Array<[keyof typeof TRUST_WEIGHTS, string, (c: TrustCommit) => boolean]> = [
+    ['rootCommit', 'Root commit', (c) => c.detail.isRootCommit],
+    ['gpgSigned', 'GPG-signed', (c) => c.detail.verified],
+    [
+      'selfOwned',
+      'Self-owned repo',
+      (c) => (c.commit.repo.split('/')[0] ?? '').toLowerCase() === username,
+    ],
+    ['dateConsistency', 'Author/committer dates agree', (c) => hasConsistentDates(c.detail)],
+    [
+      'noreplyEmail',
+      'Noreply email match',
+      (c) => Boolean(c.detail.authorEmail && matchesNoreplyEmail(c.detail.authorEmail, username)),
+    ],
+  ];
+
+  const signals: TrustSignal[] = tests.map(([key, label, test]) => {
+    const count = commits.filter(test).length;
+    return {
+      signal: label,
+      weight: TRUST_WEIGHTS[key],
+      points: Math.round((TRUST_WEIGHTS[key] * count) / commits.length),
+      detail: `${count} of ${commits.length} proof commit${commits.length === 1 ? '' : 's'}`,
+    };
+  });
+
+  const score = signals.reduce((sum, signal) => sum + signal.points, 0);
+  return { score, level: trustLevel(score), signals };
+}
+
+/** Proof commits of a forge certificate: the evidence set, or the single first commit. */
+export function getProofCommits(cert: Certificate): FirstCommit[] {
+  if (cert.proof.evidence) return cert.proof.evidence;
+  return cert.proof.firstCommit.sha ? [cert.proof.firstCommit] : [];
+}
+
+/**
+ * Scores a freshly issued certificate from the commit details in its embedded snapshot,
+ * without another request. Returns null when there is no snapshot to score from; `verify`
+ * scores the rest as it fetches the commits.
+ */
+export function scoreSnapshotTrust(
+  cert: Certificate,
+  matchesNoreplyEmail: ForgeProvider['matchesNoreplyEmail'],
+): TrustScore | null {
+  const snapshot = cert.proof.snapshot;
+  if (!snapshot) return null;
+
+  const commits: TrustCommit[] = [];
+  for (const commit of getProofCommits(cert)) {
+    const detail = snapshot.commits.find((captured) => captured.sha === commit.sha);
+    if (!detail) return null;
+    commits.push({ commit, detail });
+  }
+  return assessTrust(cert, commits, matchesNoreplyEmail);
+}
@@ -17,11 +17,34 @@ export const ERAS = {
 
 export type EraKey = keyof typeof ERAS;
 
-export const CERTIFICATE_VERSION = '1.0';
+/** One era of a policy. Proof dates before `before` fall in it unless an earlier era has them. */
+export interface EraTier {
+  /** Recorded in the certificate, e.g. `LAST_GEN`. */
+  key: string;
+  title: string;
+  description: string;
+  /** Short name for badges. Defaults to the title. */
+  label?: string;
+  /** ISO 8601 cutoff. Omitted on the last era, which has no upper bound. */
+  before?: string;
+}
+
+/** Ordered eras that classify a proof date, earliest first. */
+export interface EraPolicy {
+  /** Recorded in the certificate and covered by its hash, e.g. `tiered`. */
+  id: string;
+  eras: EraTier[];
+}
+
+export const CERTIFICATE_VERSION = '2.0';
+/** Versions verification accepts. Older ones can be upgraded with `lastgen migrate`. */
+export const SUPPORTED_CERTIFICATE_VERSIONS: readonly string[] = ['1.0', '2.0'];
 export const CERTIFICATE_SALT = 'lastgen_v1';
 export const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 
-export interface GitHubUser {
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+export interface ForgeUser {
   login: string;
   id: number;
   name: string | null;
@@ -39,19 +62,95 @@ export interface FirstCommit {
 
 export interface CertificateIdentity {
   username: string;
+  /** Forge account ID. Keeps its v1 name for every forge so existing hashes still verify. */
   githubId: number;
   name: string | null;
+  /** Forge the account lives on. Absent in older certificates, meaning GitHub. */
+  forge?: ForgeKind;
+  /** API URL of a self-hosted forge instance. Absent for the public forge. */
+  apiUrl?: string;
+}
+
+/** Proof read from a local clone with plain git instead of a forge API. */
+export interface LocalGitSource {
+  kind: 'local-git';
+  emails: string[];
+}
+
+export type ProofSource = LocalGitSource;
+
+export type ActivityKind = 'issue' | 'pull_request' | 'gist' | 'repo';
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  issue: 'Issue',
+  pull_request: 'Pull request',
+  gist: 'Gist',
+  repo: 'Repo',
+};
+
+/** Dated non-commit activity by the account, used when no commits are found. */
+export interface ActivityEvidence {
+  kind: ActivityKind;
+  date: string;
+  /** `owner/repo` for issues, pull requests and repos; the gist ID for gists. */
+  ref: string;
+  /** Issue or pull request number. */
+  number?: number;
+  title: string;
+  url: string;
+}
+
+/** Live state of an activity item, fetched again during verification. */
+export interface ActivityDetail {
+  kind: ActivityKind;
+  date: string;
+  authorLogin: string | null;
+  authorId: number | null;
 }
 
 export interface CertificateProof {
+  /** Empty for local-git proofs, which have no forge account. */
   accountCreated: string;
   firstCommit: FirstCommit;
   proofDate: string;
+  /** Absent for proofs gathered from the forge API. */
+  source?: ProofSource;
+  /**
+   * Independent early commits in distinct repos, earliest first. Present only for
+   * multi-evidence certificates; firstCommit is then the commit that meets the quorum.
+   */
+  evidence?: FirstCommit[];
+  /** How many evidence commits must date on or before the proof date. */
+  quorum?: number;
+  /** Earliest non-commit activity. Present only when no commit was found. */
+  activity?: ActivityEvidence;
+  /** Forge data captured at issue time, for offline verification. */
+  snapshot?: EvidenceSnapshot;
+}
+
+/**
+ * Account, repo and commit data as the forge reported it when the certificate was issued.
+ * Not covered by the hash: only a signature vouches that it wasn't edited afterwards.
+ */
+export interface EvidenceSnapshot {
+  capturedAt: string;
+  account: ForgeUser;
+  repos: RepoInfo[];
+  commits: CommitDetail[];
+  activity?: ActivityDetail;
+}
+
+export interface CertificateSignature {
+  algorithm: 'ed25519';
+  keyId: string;
+  publicKey: string;
+  value: string;
 }
 
 export interface CertificateVerification {
   hash: string;
   salt: string;
+  signature?: CertificateSignature;
 }
 
 export interface Certificate {
@@ -59,7 +158,10 @@ export interface Certificate {
   type: 'LASTGEN_CERTIFICATE';
   identity: CertificateIdentity;
   proof: CertificateProof;
-  era: EraKey;
+  /** Key of an era in the issuing policy. */
+  era: string;
+  /** Id of the era policy that issued the certificate. Omitted for the default policy. */
+  policy?: string;
   verification: CertificateVerification;
   certificateNumber: string;
   issuedAt: string;
@@ -79,11 +181,80 @@ export interface CommitDetail {
   verified: boolean;
 }
 
+export interface RepoInfo {
+  fullName: string;
+  createdAt: string | null;
+}
+
+export interface RepoContributor {
+  /** Null for anonymous contributors, who are known only by commit email. */
+  login: string | null;
+  name: string;
+  kind: 'user' | 'bot' | 'anonymous';
+  contributions: number;
+}
+
+/**
+ * How much a check counts: only failed `error` checks make a certificate invalid. `info`
+ * checks report trust signals and `warning` marks checks that could not be run.
+ */
+export type VerifySeverity = 'error' | 'warning' | 'info';
+
 export interface VerifyResult {
   check: string;
   passed: boolean;
   detail: string;
+  /** Defaults to `error`. */
+  severity?: VerifySeverity;
+  /** Label of the evidence commit this check belongs to, for multi-evidence proofs. */
+  group?: string;
+  /** The check needs the network and was not run, e.g. in offline mode. */
+  skipped?: boolean;
+  /** The check failed only because the forge could not be reached, not on the evidence. */
+  unavailable?: boolean;
+}
+
+export type VerifyStatus = 'valid' | 'invalid' | 'unverifiable';
+
+export type TrustLevel = 'strong' | 'moderate' | 'weak';
+
+export interface TrustSignal {
+  signal: string;
+  /** Points the signal is worth when every proof commit shows it. */
+  weight: number;
+  points: number;
+  detail: string;
+}
+
+/** Weighted 0-100 score of the trust signals found on a certificate's proof commits. */
+export interface TrustScore {
+  score: number;
+  level: TrustLevel;
+  signals: TrustSignal[];
 }
 
 /** Platform-agnostic SHA-256 hash function. */
 export type HashFn = (data: string) => Promise<string>;
+
+/** Ed25519 issuer key used to sign certificates. Public key is raw, base64url-encoded. */
+export interface CertificateSigner {
+  keyId: string;
+  publicKey: string;
+  sign: (data: string) => Promise<string>;
+}
+
+/**
+ * Platform-agnostic raw-DEFLATE compression to base64url and back, for share links.
+ * Node uses zlib, the browser CompressionStream.
+ */
+export interface LinkCodec {
+  pack: (text: string) => Promise<string>;
+  unpack: (payload: string) => Promise<string>;
+}
+
+/** Platform-agnostic Ed25519 signature check. All values are base64url-encoded. */
+export type SignatureVerifyFn = (
+  publicKey: string,
+  data: string,
+  signature: string,
+) => Promise<boolean>;
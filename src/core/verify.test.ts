@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { CommitDetail, EraPolicy, FirstCommit, ForgeUser, VerifyResult } from './types.ts';
+import type { ForgeProvider } from './forge.ts';
+import { nodeHash } from '../hash.ts';
+import { createCertificate } from './proof.ts';
+import { transientError } from './retry.ts';
+import { verifyCertificateData } from './verify.ts';
+
+const user: ForgeUser = {
+  login: 'alice',
+  id: 42,
+  name: null,
+  createdAt: '2010-03-01T00:00:00Z',
+};
+
+const commit: FirstCommit = {
+  date: '2012-05-01T12:00:00Z',
+  repo: 'alice/dotfiles',
+  sha: 'abc1234',
+  message: 'Initial commit',
+  repoCreatedAt: '2012-04-30T00:00:00Z',
+};
+
+const commitDetail: CommitDetail = {
+  sha: commit.sha,
+  authorLogin: 'alice',
+  committerLogin: 'alice',
+  authorEmail: 'alice@example.com',
+  authorDate: commit.date,
+  committerDate: commit.date,
+  authorId: null,
+  verificationReason: null,
+  isRootCommit: true,
+  message: commit.message,
+  verified: false,
+};
+
+function fakeProvider(overrides: Partial<ForgeProvider> = {}): ForgeProvider {
+  return {
+    kind: 'github',
+    name: 'GitHub',
+    apiUrl: 'https://api.github.com',
+    fetchUser: async () => user,
+    fetchUserById: async () => user,
+    fetchFirstCommit: async () => commit,
+    fetchRepo: async () => ({ fullName: commit.repo, createdAt: commit.repoCreatedAt ?? null }),
+    fetchCommit: async () => commitDetail,
+    matchesNoreplyEmail: (email, username) =>
+      email.toLowerCase() === `${username}@users.noreply.github.com`,
+    ...overrides,
+  };
+}
+
+function findCheck(results: VerifyResult[], name: string): VerifyResult {
+  const result = results.find((entry) => entry.check === name);
+  assert.ok(result, `no ${name} check`);
+  return result;
+}
+
+describe('verify identity', () => {
+  it('matches the commit author login', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const result = await verifyCertificateData(cert, nodeHash, { provider: fakeProvider() });
+
+    assert.equal(result.status, 'valid');
+    assert.equal(findCheck(result.results, 'Identity').passed, true);
+  });
+
+  it('fails when the account lookup fails and the commit has no linked logins', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const provider = fakeProvider({
+      fetchUserById: async () => {
+        throw transientError('GitHub API unreachable');
+      },
+      fetchCommit: async () => ({
+        ...commitDetail,
+        authorLogin: null,
+        committerLogin: null,
+        authorEmail: 'someone@example.com',
+      }),
+    });
+    const result = await verifyCertificateData(cert, nodeHash, { provider });
+
+    assert.equal(findCheck(result.results, 'Identity').passed, false);
+    assert.equal(result.status, 'invalid');
+  });
+
+  it('matches the noreply email of the certificate user', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const provider = fakeProvider({
+      fetchCommit: async () => ({
+        ...commitDetail,
+        authorLogin: null,
+        committerLogin: null,
+        authorEmail: 'alice@users.noreply.github.com',
+      }),
+    });
+    const identity = findCheck(
+      (await verifyCertificateData(cert, nodeHash, { provider })).results,
+      'Identity',
+    );
+
+    assert.equal(identity.passed, true);
+  });
+});
+
+describe('verify repo creation', () => {
+  it('warns, but passes, when an older certificate omits the repo creation date', async () => {
+    const cert = await createCertificate(nodeHash, user, { ...commit, repoCreatedAt: undefined });
+    const result = await verifyCertificateData(cert, nodeHash, { provider: fakeProvider() });
+    const repoCheck = findCheck(result.results, 'Repo creation');
+
+    assert.equal(result.status, 'valid');
+    assert.equal(repoCheck.passed, false);
+    assert.equal(repoCheck.severity, 'warning');
+  });
+
+  it('still catches a repo-age clamp dropped with the date', async () => {
+    const backdated = { ...commit, date: '2011-01-01T00:00:00Z', repoCreatedAt: undefined };
+    const cert = await createCertificate(nodeHash, user, backdated);
+    const result = await verifyCertificateData(cert, nodeHash, { provider: fakeProvider() });
+
+    assert.equal(result.status, 'invalid');
+    assert.equal(findCheck(result.results, 'Proof date').passed, false);
+  });
+
+  it('reports the check as skipped when the forge has no creation date', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const provider = fakeProvider({
+      fetchRepo: async () => ({ fullName: commit.repo, createdAt: null }),
+    });
+    const result = await verifyCertificateData(cert, nodeHash, { provider });
+
+    assert.equal(findCheck(result.results, 'Repo creation').skipped, true);
+    assert.equal(result.status, 'valid');
+  });
+});
+
+describe('verify offline', () => {
+  it('warns that the snapshot of an unsigned certificate is unauthenticated', async () => {
+    const snapshot = {
+      capturedAt: '2026-01-01T00:00:00Z',
+      account: user,
+      repos: [{ fullName: commit.repo, createdAt: commit.repoCreatedAt ?? null }],
+      commits: [commitDetail],
+    };
+    const cert = await createCertificate(nodeHash, user, commit, { snapshot });
+    const result = await verifyCertificateData(cert, nodeHash, { offline: true });
+    const authenticity = findCheck(result.results, 'Snapshot authenticity');
+
+    assert.equal(result.status, 'valid');
+    assert.equal(authenticity.passed, false);
+    assert.equal(authenticity.severity, 'warning');
+    assert.match(authenticity.detail, /unsigned/);
+  });
+});
+
+describe('verify era', () => {
+  const custom: EraPolicy = {
+    id: 'acme',
+    eras: [
+      { key: 'EARLY', title: 'Early', description: 'Before 2011', before: '2011-01-01T00:00:00Z' },
+      { key: 'LATE', title: 'Late', description: 'Since 2011' },
+    ],
+  };
+
+  it('rejects an era that does not match the proof date', async () => {
+    const cert = await createCertificate(nodeHash, user, commit);
+    const forged = { ...cert, era: 'AI_NATIVE' };
+    const result = await verifyCertificateData(forged, nodeHash, { offline: true });
+
+    assert.equal(findCheck(result.results, 'Era classification').passed, false);
+  });
+
+  it('needs a custom policy passed in to classify its certificates', async () => {
+    const cert = await createCertificate(nodeHash, user, commit, { policy: custom });
+    assert.equal(cert.era, 'EARLY');
+
+    const without = await verifyCertificateData(cert, nodeHash, { offline: true });
+    const withPolicy = await verifyCertificateData(cert, nodeHash, {
+      offline: true,
+      policy: custom,
+    });
+
+    assert.equal(findCheck(without.results, 'Era classification').passed, false);
+    assert.equal(findCheck(withPolicy.results, 'Era classification').passed, true);
+  });
+});
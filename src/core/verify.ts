@@ -3,50 +3,752 @@
  * Accepts parsed data and a HashFn, returns structured results.
  */
 
-import type { Certificate, HashFn, VerifyResult } from './types.ts';
-import { CUTOFF_DATE, THIRTY_DAYS_MS } from './types.ts';
-import { fetchCommit } from './github.ts';
-import { generateCertificateHash, resolveProofDate } from './proof.ts';
+import type {
+  ActivityDetail,
+  ActivityEvidence,
+  Certificate,
+  CommitDetail,
+  EraPolicy,
+  FirstCommit,
+  ForgeUser,
+  HashFn,
+  SignatureVerifyFn,
+  TrustScore,
+  VerifyResult,
+  VerifySeverity,
+  VerifyStatus,
+} from './types.ts';
+import { ACTIVITY_LABELS, THIRTY_DAYS_MS } from './types.ts';
+import type { ForgeProvider } from './forge.ts';
+import { createForgeProvider, getForgeName, getIssuingApiUrl } from './forge.ts';
+import {
+  classifyEra,
+  generateCertificateHash,
+  getHashScope,
+  getKeyId,
+  getSigningPayload,
+  resolveActivityProofDate,
+  resolveLocalProofDate,
+  resolveProofDate,
+  resolveQuorumProof,
+} from './proof.ts';
+import { findPolicy } from './policy.ts';
+import { isTransientError } from './retry.ts';
+import { validateCertificate } from './schema.ts';
+import { createSnapshotProvider } from './snapshot.ts';
+import type { TrustCommit } from './trust.ts';
+import { assessTrust } from './trust.ts';
 
+/** Whether data passes full schema validation; see validateCertificate for the errors. */
 export function isValidCertificate(data: unknown): data is Certificate {
-  if (typeof data !== 'object' || data === null) {
-    return false;
-  }
-  const cert = data as Record<string, unknown>;
-  return (
-    cert.type === 'LASTGEN_CERTIFICATE' &&
-    typeof cert.version === 'string' &&
-    typeof cert.identity === 'object' &&
-    typeof cert.proof === 'object' &&
-    typeof cert.verification === 'object' &&
-    typeof cert.certificateNumber === 'string'
+  return validateCertificate(data).length === 0;
+}
+
+export function getSeverity(result: VerifyResult): VerifySeverity {
+  return result.severity ?? 'error';
+}
+
+export interface LocalRepoReader {
+  fetchCommit: (sha: string) => Promise<CommitDetail>;
+  fetchRootCommitDate: () => Promise<string | null>;
+}
+
+export interface VerifyOptions {
+  token?: string;
+  /** Forge to verify against. Defaults to the forge recorded in the certificate. */
+  provider?: ForgeProvider;
+  /** Reads commits from the local clone a local-git certificate was issued from. */
+  localRepo?: LocalRepoReader;
+  /** Raw base64url Ed25519 public keys of issuers whose signatures are trusted. */
+  trustedKeys?: string[];
+  verifySignature?: SignatureVerifyFn;
+  /** Skip every network check; forge proofs are checked against their embedded snapshot. */
+  offline?: boolean;
+  /** Custom era policy to accept besides the built-in ones. */
+  policy?: EraPolicy;
+}
+
+async function checkSignature(
+  cert: Certificate,
+  hashFn: HashFn,
+  options: VerifyOptions,
+): Promise<VerifyResult> {
+  const signature = cert.verification.signature;
+  const trustedKeys = options.trustedKeys ?? [];
+
+  if (!signature) {
+    return {
+      check: 'Signature',
+      passed: false,
+      detail: 'Certificate is not signed but trusted issuer keys were provided',
+    };
+  }
+
+  if (signature.algorithm !== 'ed25519') {
+    return {
+      check: 'Signature',
+      passed: false,
+      detail: `Unsupported signature algorithm: ${signature.algorithm}`,
+    };
+  }
+
+  if (!options.verifySignature) {
+    return {
+      check: 'Signature',
+      passed: false,
+      detail: 'Certificate is signed but no signature verifier is available',
+    };
+  }
+
+  const keyId = await getKeyId(hashFn, signature.publicKey);
+  const signatureValid = await options.verifySignature(
+    signature.publicKey,
+    getSigningPayload(cert),
+    signature.value,
+  );
+  if (!signatureValid) {
+    return {
+      check: 'Signature',
+      passed: false,
+      detail: `Signature by key ${keyId} is invalid - certificate may have been tampered with`,
+    };
+  }
+
+  if (trustedKeys.length === 0) {
+    return {
+      check: 'Signature',
+      passed: true,
+      detail: `Valid signature by key ${keyId} (no trusted keys configured to check the issuer)`,
+    };
+  }
+
+  const trusted = trustedKeys.includes(signature.publicKey);
+  return {
+    check: 'Signature',
+    passed: trusted,
+    detail: trusted
+      ? `Valid signature by trusted issuer key ${keyId}`
+      : `Valid signature, but issuer key ${keyId} is not in the trusted keys list`,
+  };
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Re-fetches the account by forge ID (so renames don't break the lookup) and compares
+ * its creation date with the certificate. Returns the live user, or null if unavailable.
+ */
+async function checkAccountCreation(
+  cert: Certificate,
+  provider: ForgeProvider,
+  results: VerifyResult[],
+): Promise<ForgeUser | null> {
+  let liveUser: ForgeUser;
+  try {
+    liveUser = await provider.fetchUserById(cert.identity.githubId);
+  } catch (fetchError) {
+    const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    results.push({
+      check: 'Account creation',
+      passed: false,
+      detail: `Could not fetch account from ${provider.name}: ${message}`,
+      unavailable: isTransientError(fetchError),
+    });
+    return null;
+  }
+
+  const renamed = liveUser.login.toLowerCase() !== cert.identity.username.toLowerCase();
+  const renamedNote = renamed ? ` (account is now ${liveUser.login})` : '';
+  const match = sameInstant(liveUser.createdAt, cert.proof.accountCreated);
+  results.push({
+    check: 'Account creation',
+    passed: match,
+    detail: match
+      ? `Account creation date matches ${provider.name} (${liveUser.createdAt})${renamedNote}`
+      : `${provider.name} reports account created ${liveUser.createdAt} but certificate claims ${cert.proof.accountCreated}`,
+  });
+  return liveUser;
+}
+
+/**
+ * Re-fetches a proof commit's repo and compares its creation date with the certificate.
+ * Older lookups left repoCreatedAt out when the repo couldn't be fetched, so a missing
+ * date only warns: the caller re-derives the repo-age clamp from the live date either way.
+ */
+async function checkRepoCreation(
+  commit: FirstCommit,
+  provider: ForgeProvider,
+  results: VerifyResult[],
+): Promise<string | undefined> {
+  const claimed = commit.repoCreatedAt;
+  let liveCreatedAt: string | null;
+  try {
+    const repo = await provider.fetchRepo(commit.repo);
+    liveCreatedAt = repo.createdAt;
+  } catch (fetchError) {
+    const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    results.push({
+      check: 'Repo creation',
+      passed: false,
+      detail: `Could not fetch repo from ${provider.name}: ${message}`,
+      unavailable: isTransientError(fetchError),
+    });
+    return undefined;
+  }
+
+  if (!liveCreatedAt) {
+    results.push({
+      check: 'Repo creation',
+      passed: true,
+      severity: 'warning',
+      skipped: true,
+      detail: `Skipped: ${provider.name} reports no creation date for ${commit.repo}`,
+    });
+    return undefined;
+  }
+
+  if (claimed === undefined) {
+    results.push({
+      check: 'Repo creation',
+      passed: false,
+      severity: 'warning',
+      detail: `Certificate omits repo creation date; proof date re-derived from ${provider.name} (${liveCreatedAt})`,
+    });
+    return liveCreatedAt;
+  }
+
+  const match = sameInstant(liveCreatedAt, claimed);
+  results.push({
+    check: 'Repo creation',
+    passed: match,
+    detail: match
+      ? `Repo creation date matches ${provider.name} (${liveCreatedAt})`
+      : `${provider.name} reports repo created ${liveCreatedAt} but certificate claims ${claimed}`,
+  });
+  return liveCreatedAt;
+}
+
+/**
+ * Refuses to check a certificate against a different forge or instance than the one that
+ * issued it, e.g. a GitHub Enterprise certificate against public GitHub. Usernames and IDs
+ * are only unique within one instance, so such a check would be meaningless.
+ */
+function checkForgeInstance(cert: Certificate, provider: ForgeProvider): VerifyResult | null {
+  const forge = cert.identity.forge ?? 'github';
+  const issuingApiUrl = getIssuingApiUrl(forge, cert.identity.apiUrl);
+  if (provider.kind === forge && provider.apiUrl === issuingApiUrl) {
+    return null;
+  }
+  return {
+    check: 'Forge instance',
+    passed: false,
+    detail: `Certificate was issued by ${forge} at ${issuingApiUrl ?? '(unknown)'} but verification targets ${provider.kind} at ${provider.apiUrl} - refusing to check`,
+  };
+}
+
+/**
+ * Classifies the proof date under the policy the certificate names. A certificate from a
+ * policy the verifier doesn't know fails: its era could claim anything.
+ */
+function checkEra(cert: Certificate, custom?: EraPolicy): VerifyResult {
+  const policy = findPolicy(cert.policy, custom);
+  if (!policy) {
+    return {
+      check: 'Era classification',
+      passed: false,
+      detail: `Certificate was issued under era policy ${cert.policy}, which this verifier does not know`,
+    };
+  }
+  const expectedEra = classifyEra(cert.proof.proofDate, policy);
+  const under = cert.policy ? ` under the ${policy.id} policy` : '';
+  return {
+    check: 'Era classification',
+    passed: cert.era === expectedEra,
+    detail:
+      cert.era === expectedEra
+        ? `Era ${cert.era} is correct for proof date ${cert.proof.proofDate}${under}`
+        : `Era should be ${expectedEra}${under} but certificate claims ${cert.era}`,
+  };
+}
+
+function checkProofDate(
+  cert: Certificate,
+  expectedProofDate: string,
+  results: VerifyResult[],
+): void {
+  const proofDate = new Date(cert.proof.proofDate);
+  const proofDateMatch =
+    Math.abs(new Date(expectedProofDate).getTime() - proofDate.getTime()) < 60000;
+  results.push({
+    check: 'Proof date',
+    passed: proofDateMatch,
+    detail: proofDateMatch
+      ? `Proof date ${cert.proof.proofDate} is consistent with commit and account data`
+      : `Proof date should be ${expectedProofDate} but certificate claims ${cert.proof.proofDate}`,
+  });
+}
+
+function checkCommitDates(
+  commitDetail: CommitDetail,
+  firstCommit: FirstCommit,
+  results: VerifyResult[],
+): void {
+  const commitDate = new Date(commitDetail.authorDate ?? '');
+  const certDate = new Date(firstCommit.date);
+  const datesClose = Math.abs(commitDate.getTime() - certDate.getTime()) < 60000;
+  results.push({
+    check: 'Commit date',
+    passed: datesClose,
+    detail: datesClose
+      ? `Commit date matches certificate (${commitDetail.authorDate})`
+      : `Commit date ${commitDetail.authorDate} differs from certificate ${firstCommit.date}`,
+  });
+
+  if (commitDetail.authorDate && commitDetail.committerDate) {
+    const authorTime = new Date(commitDetail.authorDate).getTime();
+    const committerTime = new Date(commitDetail.committerDate).getTime();
+    const driftMs = Math.abs(committerTime - authorTime);
+    const driftDays = Math.round(driftMs / (24 * 60 * 60 * 1000));
+    const consistent = driftMs <= THIRTY_DAYS_MS;
+    results.push({
+      check: 'Date consistency',
+      passed: consistent,
+      detail: consistent
+        ? `Author/committer date drift: ${driftDays}d (within 30d threshold)`
+        : `Author/committer date drift: ${driftDays}d exceeds 30d - author date may be forged`,
+    });
+  }
+
+  if (commitDetail.isRootCommit) {
+    results.push({
+      check: 'Root commit',
+      passed: true,
+      severity: 'info',
+      detail: 'Commit has no parents (first commit in repo - higher trust)',
+    });
+  }
+}
+
+/** Runs the forge checks and scores the proof commits it fetched; null for activity proofs. */
+async function verifyForgeProof(
+  cert: Certificate,
+  provider: ForgeProvider,
+  results: VerifyResult[],
+): Promise<TrustScore | null> {
+  const liveUser = await checkAccountCreation(cert, provider, results);
+  const reconstructedUser = {
+    login: cert.identity.username,
+    id: cert.identity.githubId,
+    name: cert.identity.name,
+    createdAt: liveUser?.createdAt ?? cert.proof.accountCreated,
+  };
+
+  if (cert.proof.activity && !cert.proof.firstCommit.sha) {
+    await verifyActivity(cert, cert.proof.activity, provider, reconstructedUser, results);
+    return null;
+  }
+
+  const trustCommits: TrustCommit[] = [];
+  if (cert.proof.evidence) {
+    await verifyEvidence(
+      cert,
+      cert.proof.evidence,
+      provider,
+      liveUser,
+      reconstructedUser,
+      results,
+      trustCommits,
+    );
+    return assessTrust(cert, trustCommits, provider.matchesNoreplyEmail);
+  }
+
+  const liveRepoCreatedAt = cert.proof.firstCommit.sha
+    ? await checkRepoCreation(cert.proof.firstCommit, provider, results)
+    : undefined;
+
+  const reconstructedCommit = cert.proof.firstCommit.sha
+    ? {
+        ...cert.proof.firstCommit,
+        repoCreatedAt: liveRepoCreatedAt ?? cert.proof.firstCommit.repoCreatedAt,
+      }
+    : null;
+  checkProofDate(cert, resolveProofDate(reconstructedUser, reconstructedCommit), results);
+
+  if (cert.proof.firstCommit.sha) {
+    await checkForgeCommit(cert, cert.proof.firstCommit, provider, liveUser, results, trustCommits);
+  }
+  return assessTrust(cert, trustCommits, provider.matchesNoreplyEmail);
+}
+
+/**
+ * Re-fetches a non-commit activity item and checks its kind, author and date, then
+ * re-derives the proof date from the live creation date.
+ */
+async function verifyActivity(
+  cert: Certificate,
+  activity: ActivityEvidence,
+  provider: ForgeProvider,
+  reconstructedUser: ForgeUser,
+  results: VerifyResult[],
+): Promise<void> {
+  const label = ACTIVITY_LABELS[activity.kind];
+  let detail: ActivityDetail;
+  try {
+    if (!provider.fetchActivity) {
+      throw new Error(`${provider.name} does not support activity proofs`);
+    }
+    detail = await provider.fetchActivity(activity);
+  } catch (fetchError) {
+    const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    checkProofDate(cert, resolveActivityProofDate(reconstructedUser, activity), results);
+    results.push({
+      check: `${label} activity`,
+      passed: false,
+      detail: `Could not fetch ${label.toLowerCase()} from ${provider.name}: ${message}`,
+      unavailable: isTransientError(fetchError),
+    });
+    return;
+  }
+
+  checkProofDate(
+    cert,
+    resolveActivityProofDate(reconstructedUser, { ...activity, date: detail.date }),
+    results,
   );
+
+  if (activity.kind === 'issue' || activity.kind === 'pull_request') {
+    const kindMatch = detail.kind === activity.kind;
+    results.push({
+      check: `${label} kind`,
+      passed: kindMatch,
+      detail: kindMatch
+        ? `${activity.ref}#${activity.number} is a ${label.toLowerCase()}`
+        : `${activity.ref}#${activity.number} is a ${ACTIVITY_LABELS[detail.kind].toLowerCase()}, not a ${label.toLowerCase()}`,
+    });
+  }
+
+  const ownerCheck =
+    activity.kind === 'gist' || activity.kind === 'repo' ? `${label} owner` : `${label} author`;
+  const idMatch = detail.authorId === cert.identity.githubId;
+  results.push({
+    check: ownerCheck,
+    passed: idMatch,
+    detail: idMatch
+      ? `${label} belongs to ${detail.authorLogin} (${provider.name} ID ${detail.authorId})`
+      : `${label} belongs to ${detail.authorLogin ?? '(unknown)'} (ID ${detail.authorId}), not certificate ID ${cert.identity.githubId}`,
+  });
+
+  const dateMatch = sameInstant(detail.date, activity.date);
+  results.push({
+    check: `${label} date`,
+    passed: dateMatch,
+    detail: dateMatch
+      ? `${label} creation date matches ${provider.name} (${detail.date})`
+      : `${provider.name} reports ${label.toLowerCase()} created ${detail.date} but certificate claims ${activity.date}`,
+  });
 }
 
-function matchesNoreplyEmail(email: string, username: string): boolean {
-  const lower = email.toLowerCase();
-  const user = username.toLowerCase();
-  const pattern = new RegExp(`^(\\d+\\+)?${escapeRegex(user)}@users\\.noreply\\.github\\.com$`);
-  return pattern.test(lower);
+/**
+ * Runs the per-commit checks on every evidence commit, reported under one group per
+ * commit, then re-derives the quorum proof date from the live repo and account data.
+ */
+async function verifyEvidence(
+  cert: Certificate,
+  evidence: FirstCommit[],
+  provider: ForgeProvider,
+  liveUser: ForgeUser | null,
+  reconstructedUser: ForgeUser,
+  results: VerifyResult[],
+  trustCommits: TrustCommit[],
+): Promise<void> {
+  const quorum = cert.proof.quorum ?? 1;
+  const distinctRepos = new Set(evidence.map((commit) => commit.repo.toLowerCase())).size;
+  const quorumValid = Number.isInteger(quorum) && quorum >= 1 && quorum <= evidence.length;
+  const includesFirst = evidence.some((commit) => commit.sha === cert.proof.firstCommit.sha);
+  results.push({
+    check: 'Evidence quorum',
+    passed: quorumValid && distinctRepos === evidence.length && includesFirst,
+    detail: !quorumValid
+      ? `Quorum ${quorum} is not between 1 and the ${evidence.length} evidence commits`
+      : distinctRepos !== evidence.length
+        ? `Evidence commits share repos (${distinctRepos} distinct of ${evidence.length})`
+        : !includesFirst
+          ? 'Proof commit is not one of the evidence commits'
+          : `Proof date needs ${quorum} of ${evidence.length} commits in distinct repos`,
+  });
+
+  // Grouped results go after the proof date, so ungrouped checks are listed first.
+  const groupedResults: VerifyResult[] = [];
+  const reconstructedCommits: FirstCommit[] = [];
+  for (const [index, commit] of evidence.entries()) {
+    const group = `Evidence ${index + 1}/${evidence.length}: ${commit.repo}@${commit.sha.slice(0, 7)}`;
+    const commitResults: VerifyResult[] = [];
+    const liveRepoCreatedAt = await checkRepoCreation(commit, provider, commitResults);
+    await checkForgeCommit(cert, commit, provider, liveUser, commitResults, trustCommits);
+    groupedResults.push(...commitResults.map((result) => ({ ...result, group })));
+    reconstructedCommits.push({
+      ...commit,
+      repoCreatedAt: liveRepoCreatedAt ?? commit.repoCreatedAt,
+    });
+  }
+
+  const { proofDate } = resolveQuorumProof(reconstructedUser, reconstructedCommits, quorum);
+  checkProofDate(cert, proofDate, results);
+  results.push(...groupedResults);
 }
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+/**
+ * Fetches one proof commit and checks identity, ownership, forge ID, and dates. The fetched
+ * commit is added to trustCommits for scoring.
+ */
+async function checkForgeCommit(
+  cert: Certificate,
+  commit: FirstCommit,
+  provider: ForgeProvider,
+  liveUser: ForgeUser | null,
+  results: VerifyResult[],
+  trustCommits: TrustCommit[],
+): Promise<void> {
+  let commitDetail: CommitDetail;
+  try {
+    commitDetail = await provider.fetchCommit(commit.repo, commit.sha);
+  } catch (fetchError) {
+    const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    results.push({
+      check: 'Commit verification',
+      passed: false,
+      detail: `Could not fetch commit from ${provider.name}: ${message}`,
+      unavailable: isTransientError(fetchError),
+    });
+    return;
+  }
+  trustCommits.push({ commit, detail: commitDetail });
+
+  const usernames = [cert.identity.username, liveUser?.login]
+    .filter((u): u is string => !!u)
+    .map((u) => u.toLowerCase());
+  const matchesLogin = (login: string | null): boolean =>
+    login !== null && login !== '' && usernames.includes(login.toLowerCase());
+  const authorMatch = matchesLogin(commitDetail.authorLogin);
+  const committerMatch = matchesLogin(commitDetail.committerLogin);
+  const authorEmail = commitDetail.authorEmail;
+  const emailMatch = authorEmail
+    ? usernames.some((u) => provider.matchesNoreplyEmail(authorEmail, u))
+    : false;
+
+  const identityMatch = authorMatch || committerMatch || emailMatch;
+  const matchMethods: string[] = [];
+  if (authorMatch) matchMethods.push('author login');
+  if (committerMatch) matchMethods.push('committer login');
+  if (emailMatch) matchMethods.push('noreply email');
+
+  results.push({
+    check: 'Identity',
+    passed: identityMatch,
+    detail: identityMatch
+      ? `Matched via: ${matchMethods.join(', ')}`
+      : `Commit author (${commitDetail.authorLogin}) does not match ${cert.identity.username}`,
+  });
+
+  const repoOwner = commit.repo.split('/')[0] ?? '';
+  const isSelfOwned = repoOwner.toLowerCase() === cert.identity.username.toLowerCase();
+  results.push({
+    check: 'Repo ownership',
+    passed: true,
+    severity: 'info',
+    detail: isSelfOwned
+      ? `Commit is in a repo owned by ${cert.identity.username}`
+      : `Commit is in a third-party repo (${commit.repo})`,
+  });
+
+  if (commitDetail.authorId !== null) {
+    const idMatch = commitDetail.authorId === cert.identity.githubId;
+    results.push({
+      check: `${provider.name} ID`,
+      passed: idMatch,
+      detail: idMatch
+        ? `${provider.name} ID ${commitDetail.authorId} matches certificate`
+        : `Commit author ID ${commitDetail.authorId} does not match certificate ID ${cert.identity.githubId}`,
+    });
+  }
+
+  checkCommitDates(commitDetail, commit, results);
+
+  if (commitDetail.verified) {
+    const reason = commitDetail.verificationReason;
+    const reasonDetail = reason && reason !== 'valid' ? ` (${reason})` : '';
+    results.push({
+      check: 'GPG signature',
+      passed: true,
+      severity: 'info',
+      detail: `Commit is GPG-signed${reasonDetail}`,
+    });
+  }
+}
+
+/**
+ * Checks a forge proof without the network: against the embedded snapshot when there is
+ * one, otherwise by recomputing the proof date from the certificate's own data.
+ */
+async function verifyOfflineProof(
+  cert: Certificate,
+  trustedSignature: boolean,
+  results: VerifyResult[],
+): Promise<TrustScore | null> {
+  const forgeName = getForgeName(cert.identity.forge ?? 'github', cert.identity.apiUrl);
+  const snapshot = cert.proof.snapshot;
+
+  if (snapshot) {
+    const trust = await verifyForgeProof(cert, createSnapshotProvider(cert, snapshot), results);
+    results.push({
+      check: 'Live forge data',
+      passed: true,
+      severity: 'warning',
+      skipped: true,
+      detail: `Skipped (offline): checked against the snapshot captured ${snapshot.capturedAt}, not re-fetched from ${forgeName}`,
+    });
+    // The snapshot is outside the hash, so only a trusted signature keeps it from being edited.
+    results.push({
+      check: 'Snapshot authenticity',
+      passed: trustedSignature,
+      severity: 'warning',
+      detail: trustedSignature
+        ? 'Snapshot is covered by the trusted issuer signature'
+        : cert.verification.signature
+          ? 'Snapshot is unauthenticated: the certificate is not signed by a trusted issuer key, so its data may have been edited'
+          : 'Snapshot is unauthenticated: the certificate is unsigned, so its data may have been edited',
+    });
+    return trust;
+  }
+
+  const { activity, evidence, firstCommit } = cert.proof;
+  const user: ForgeUser = {
+    login: cert.identity.username,
+    id: cert.identity.githubId,
+    name: cert.identity.name,
+    createdAt: cert.proof.accountCreated,
+  };
+  const expectedProofDate =
+    activity && !firstCommit.sha
+      ? resolveActivityProofDate(user, activity)
+      : evidence
+        ? resolveQuorumProof(user, evidence, cert.proof.quorum ?? 1).proofDate
+        : resolveProofDate(user, firstCommit.sha ? firstCommit : null);
+  checkProofDate(cert, expectedProofDate, results);
+
+  const skipped = (check: string, what: string): VerifyResult => ({
+    check,
+    passed: true,
+    severity: 'warning',
+    skipped: true,
+    detail: `Skipped (offline): ${what} not fetched from ${forgeName}`,
+  });
+  results.push(skipped('Account creation', `account ${cert.identity.githubId}`));
+  if (activity && !firstCommit.sha) {
+    const label = ACTIVITY_LABELS[activity.kind];
+    results.push(skipped(`${label} activity`, `${label.toLowerCase()} ${activity.url}`));
+  } else if (firstCommit.sha) {
+    const commits = evidence?.length ?? 1;
+    const plural = commits === 1 ? '' : 's';
+    results.push(skipped('Repo creation', `creation date of ${commits} repo${plural}`));
+    results.push(skipped('Commit verification', `${commits} commit${plural}`));
+  }
+  return null;
+}
+
+async function verifyLocalProof(
+  cert: Certificate,
+  localRepo: LocalRepoReader | undefined,
+  results: VerifyResult[],
+): Promise<void> {
+  const firstCommit = cert.proof.firstCommit;
+
+  if (!localRepo) {
+    checkProofDate(cert, resolveLocalProofDate(firstCommit), results);
+    results.push({
+      check: 'Local commit',
+      passed: false,
+      detail: 'Proof comes from a local git repository - provide its path to check the commit',
+    });
+    return;
+  }
+
+  let rootCommitDate: string | null;
+  try {
+    rootCommitDate = await localRepo.fetchRootCommitDate();
+  } catch (readError) {
+    const message = readError instanceof Error ? readError.message : String(readError);
+    results.push({
+      check: 'Repo creation',
+      passed: false,
+      detail: `Could not read root commits from local repository: ${message}`,
+    });
+    return;
+  }
+  const claimed = firstCommit.repoCreatedAt;
+  const rootMatch =
+    rootCommitDate !== null && claimed !== undefined && sameInstant(rootCommitDate, claimed);
+  results.push({
+    check: 'Repo creation',
+    passed: rootMatch,
+    detail: rootMatch
+      ? `Root commit date matches certificate (${rootCommitDate})`
+      : `Local root commit date ${rootCommitDate ?? '(none)'} differs from certificate ${claimed ?? '(none)'}`,
+  });
+
+  checkProofDate(
+    cert,
+    resolveLocalProofDate({ ...firstCommit, repoCreatedAt: rootCommitDate ?? undefined }),
+    results,
+  );
+
+  let commitDetail: CommitDetail;
+  try {
+    commitDetail = await localRepo.fetchCommit(firstCommit.sha);
+  } catch (readError) {
+    const message = readError instanceof Error ? readError.message : String(readError);
+    results.push({
+      check: 'Local commit',
+      passed: false,
+      detail: `Could not read commit from local repository: ${message}`,
+    });
+    return;
+  }
+
+  const emails = (cert.proof.source?.emails ?? []).map((e) => e.toLowerCase());
+  const authorEmail = (commitDetail.authorEmail ?? '').toLowerCase();
+  const emailMatch = emails.includes(authorEmail);
+  results.push({
+    check: 'Identity',
+    passed: emailMatch,
+    detail: emailMatch
+      ? `Author email ${commitDetail.authorEmail} is one of the certificate emails`
+      : `Author email ${commitDetail.authorEmail} is not one of: ${emails.join(', ')}`,
+  });
+
+  checkCommitDates(commitDetail, firstCommit, results);
 }
 
 export interface VerifyCertificateResult {
   valid: boolean;
+  /** `unverifiable` when every failed check failed only because the forge was unreachable. */
+  status: VerifyStatus;
   results: VerifyResult[];
   certificateNumber: string;
   username: string;
+  /** Absent for local-git and activity proofs, and when no proof commit could be fetched. */
+  trust?: TrustScore;
 }
 
 export async function verifyCertificateData(
   cert: Certificate,
   hashFn: HashFn,
-  token?: string,
+  options: VerifyOptions = {},
 ): Promise<VerifyCertificateResult> {
   const results: VerifyResult[] = [];
+  let trust: TrustScore | null = null;
 
   const expectedHash = await generateCertificateHash(
     hashFn,
@@ -54,6 +756,7 @@ export async function verifyCertificateData(
     cert.identity.githubId,
     cert.proof.proofDate,
     cert.era,
+    getHashScope(cert),
   );
 
   const actualHash = cert.verification.hash.replace('sha256:', '');
@@ -66,148 +769,48 @@ export async function verifyCertificateData(
         : 'Certificate hash does not match - data may have been tampered with',
   });
 
-  const proofDate = new Date(cert.proof.proofDate);
-  const cutoff = new Date(CUTOFF_DATE);
-  const isBeforeCutoff = proofDate.getTime() < cutoff.getTime();
-  const expectedEra = isBeforeCutoff ? 'LAST_GEN' : 'AI_NATIVE';
-  results.push({
-    check: 'Era classification',
-    passed: cert.era === expectedEra,
-    detail:
-      cert.era === expectedEra
-        ? `Era ${cert.era} is correct for proof date ${cert.proof.proofDate}`
-        : `Era should be ${expectedEra} but certificate claims ${cert.era}`,
-  });
-
-  const reconstructedUser = {
-    login: cert.identity.username,
-    id: cert.identity.githubId,
-    name: cert.identity.name,
-    createdAt: cert.proof.accountCreated,
-  };
-  const expectedProofDate = resolveProofDate(
-    reconstructedUser,
-    cert.proof.firstCommit.sha ? cert.proof.firstCommit : null,
-  );
-  const proofDateMatch =
-    Math.abs(new Date(expectedProofDate).getTime() - proofDate.getTime()) < 60000;
-  results.push({
-    check: 'Proof date',
-    passed: proofDateMatch,
-    detail: proofDateMatch
-      ? `Proof date ${cert.proof.proofDate} is consistent with commit and account data`
-      : `Proof date should be ${expectedProofDate} but certificate claims ${cert.proof.proofDate}`,
-  });
-
-  if (cert.proof.firstCommit.sha) {
-    try {
-      const commitDetail = await fetchCommit(
-        cert.proof.firstCommit.repo,
-        cert.proof.firstCommit.sha,
-        token,
-      );
-
-      const username = cert.identity.username.toLowerCase();
-      const authorMatch = (commitDetail.authorLogin ?? '').toLowerCase() === username;
-      const committerMatch = (commitDetail.committerLogin ?? '').toLowerCase() === username;
-      const emailMatch = commitDetail.authorEmail
-        ? matchesNoreplyEmail(commitDetail.authorEmail, cert.identity.username)
-        : false;
-
-      const identityMatch = authorMatch || committerMatch || emailMatch;
-      const matchMethods: string[] = [];
-      if (authorMatch) matchMethods.push('author login');
-      if (committerMatch) matchMethods.push('committer login');
-      if (emailMatch) matchMethods.push('noreply email');
-
-      results.push({
-        check: 'Identity',
-        passed: identityMatch,
-        detail: identityMatch
-          ? `Matched via: ${matchMethods.join(', ')}`
-          : `Commit author (${commitDetail.authorLogin}) does not match ${cert.identity.username}`,
-      });
-
-      const repoOwner = cert.proof.firstCommit.repo.split('/')[0] ?? '';
-      const isSelfOwned = repoOwner.toLowerCase() === cert.identity.username.toLowerCase();
-      results.push({
-        check: 'Repo ownership',
-        passed: true,
-        detail: isSelfOwned
-          ? `Commit is in a repo owned by ${cert.identity.username}`
-          : `Commit is in a third-party repo (${cert.proof.firstCommit.repo})`,
-      });
-
-      if (commitDetail.authorId !== null) {
-        const idMatch = commitDetail.authorId === cert.identity.githubId;
-        results.push({
-          check: 'GitHub ID',
-          passed: idMatch,
-          detail: idMatch
-            ? `GitHub ID ${commitDetail.authorId} matches certificate`
-            : `Commit author ID ${commitDetail.authorId} does not match certificate ID ${cert.identity.githubId}`,
-        });
-      }
-
-      const commitDate = new Date(commitDetail.authorDate ?? '');
-      const certDate = new Date(cert.proof.firstCommit.date);
-      const datesClose = Math.abs(commitDate.getTime() - certDate.getTime()) < 60000;
-      results.push({
-        check: 'Commit date',
-        passed: datesClose,
-        detail: datesClose
-          ? `Commit date matches certificate (${commitDetail.authorDate})`
-          : `Commit date ${commitDetail.authorDate} differs from certificate ${cert.proof.firstCommit.date}`,
-      });
-
-      if (commitDetail.authorDate && commitDetail.committerDate) {
-        const authorTime = new Date(commitDetail.authorDate).getTime();
-        const committerTime = new Date(commitDetail.committerDate).getTime();
-        const driftMs = Math.abs(committerTime - authorTime);
-        const driftDays = Math.round(driftMs / (24 * 60 * 60 * 1000));
-        const consistent = driftMs <= THIRTY_DAYS_MS;
-        results.push({
-          check: 'Date consistency',
-          passed: consistent,
-          detail: consistent
-            ? `Author/committer date drift: ${driftDays}d (within 30d threshold)`
-            : `Author/committer date drift: ${driftDays}d exceeds 30d - author date may be forged`,
-        });
-      }
+  let trustedSignature = false;
+  if (cert.verification.signature || options.trustedKeys?.length) {
+    const signatureResult = await checkSignature(cert, hashFn, options);
+    results.push(signatureResult);
+    trustedSignature =
+      signatureResult.passed &&
+      options.trustedKeys?.includes(cert.verification.signature?.publicKey ?? '') === true;
+  }
 
-      if (commitDetail.isRootCommit) {
-        results.push({
-          check: 'Root commit',
-          passed: true,
-          detail: 'Commit has no parents (first commit in repo - higher trust)',
-        });
-      }
+  results.push(checkEra(cert, options.policy));
 
-      if (commitDetail.verified) {
-        const reason = commitDetail.verificationReason;
-        const reasonDetail = reason && reason !== 'valid' ? ` (${reason})` : '';
-        results.push({
-          check: 'GPG signature',
-          passed: true,
-          detail: `Commit is GPG-signed${reasonDetail}`,
-        });
-      }
-    } catch (fetchError) {
-      const message = fetchError instanceof Error ? fetchError.message : String(fetchError);
-      results.push({
-        check: 'Commit verification',
-        passed: false,
-        detail: `Could not fetch commit from GitHub: ${message}`,
+  if (cert.proof.source?.kind === 'local-git') {
+    await verifyLocalProof(cert, options.localRepo, results);
+  } else if (options.offline) {
+    trust = await verifyOfflineProof(cert, trustedSignature, results);
+  } else {
+    const provider =
+      options.provider ??
+      createForgeProvider(cert.identity.forge ?? 'github', {
+        token: options.token,
+        apiUrl: cert.identity.apiUrl,
       });
+    const instanceCheck = checkForgeInstance(cert, provider);
+    if (instanceCheck) {
+      results.push(instanceCheck);
+    } else {
+      trust = await verifyForgeProof(cert, provider, results);
     }
   }
 
-  const allPassed = results.every((r) => r.passed);
+  const failed = results.filter((r) => !r.passed && getSeverity(r) === 'error');
+  const allPassed = failed.length === 0;
 
-  return {
+  const verified: VerifyCertificateResult = {
     valid: allPassed,
+    status: allPassed ? 'valid' : failed.every((r) => r.unavailable) ? 'unverifiable' : 'invalid',
     results,
     certificateNumber: cert.certificateNumber,
     username: cert.identity.username,
   };
+  if (trust) {
+    verified.trust = trust;
+  }
+  return verified;
 }
@@ -4,8 +4,10 @@
 
 import { styleText } from 'node:util';
 
-import type { Certificate } from './core/types.ts';
-import { ERAS } from './core/types.ts';
+import type { Certificate, EraPolicy, TrustLevel, TrustScore } from './core/types.ts';
+import type { EraCensus } from './core/census.ts';
+import { ACTIVITY_LABELS } from './core/types.ts';
+import { DEFAULT_POLICY, describeEra } from './core/policy.ts';
 
 function shouldUseColor(): boolean {
   if (process.env['NO_COLOR'] !== undefined) {
@@ -62,10 +64,25 @@ function labelLine(label: string, value: string, styledValue: string, lines: str
   }
 }
 
-export function displayCertificate(cert: Certificate): void {
+export const TRUST_COLORS: Record<TrustLevel, string> = {
+  strong: 'green',
+  moderate: 'yellow',
+  weak: 'red',
+};
+
+/** e.g. `85/100 (strong)`. */
+export function formatTrustScore(trust: TrustScore): string {
+  return `${trust.score}/100 (${trust.level})`;
+}
+
+/** `policy` is a custom era policy the certificate may name. */
+export function displayCertificate(
+  cert: Certificate,
+  trust?: TrustScore | null,
+  policy?: EraPolicy,
+): void {
   const out = process.stdout;
-  const isLastGen = cert.era === 'LAST_GEN';
-  const eraInfo = ERAS[cert.era];
+  const { era: eraInfo, isLatest } = describeEra(cert, policy);
   const lines: string[] = [];
 
   lines.push(boxRule());
@@ -90,7 +107,7 @@ export function displayCertificate(cert: Certificate): void {
     : cert.identity.username;
   labelLine('Developer    ', devValue, devValue, lines);
 
-  const eraColor = isLastGen ? 'green' : 'cyan';
+  const eraColor = isLatest ? 'cyan' : 'green';
   labelLine('Era          ', eraInfo.title, style(eraColor, eraInfo.title), lines);
   labelLine('             ', eraInfo.description, style('dim', eraInfo.description), lines);
 
@@ -98,7 +115,10 @@ export function displayCertificate(cert: Certificate): void {
     lines.push(boxEmpty());
 
     const commitDate = new Date(cert.proof.firstCommit.date).toISOString().slice(0, 10);
-    const repo = cert.proof.firstCommit.repo;
+    const repo =
+      cert.proof.source?.kind === 'local-git'
+        ? `${cert.proof.firstCommit.repo} (local git)`
+        : cert.proof.firstCommit.repo;
     labelLine('Proof Commit ', repo, repo, lines);
     const shaShort = cert.proof.firstCommit.sha.slice(0, 7);
     const commitMsg = `${shaShort} ${cert.proof.firstCommit.message.replace(/\n/g, ' ')}`;
@@ -106,27 +126,127 @@ export function displayCertificate(cert: Certificate): void {
     labelLine('Commit Date  ', commitDate, commitDate, lines);
   }
 
+  const activity = cert.proof.activity;
+  if (activity) {
+    lines.push(boxEmpty());
+
+    const ref = activity.number ? `${activity.ref}#${activity.number}` : activity.ref;
+    const activityValue = `${ACTIVITY_LABELS[activity.kind]} ${ref}`;
+    labelLine('Proof        ', activityValue, activityValue, lines);
+    labelLine('             ', activity.title, style('dim', activity.title), lines);
+    const createdDate = new Date(activity.date).toISOString().slice(0, 10);
+    labelLine('Created      ', createdDate, createdDate, lines);
+  }
+
+  const evidence = cert.proof.evidence;
+  if (evidence) {
+    const evidenceValue = `${evidence.length} repos, quorum ${cert.proof.quorum ?? 1}`;
+    labelLine('Evidence     ', evidenceValue, evidenceValue, lines);
+  }
+
+  if (trust) {
+    const trustValue = formatTrustScore(trust);
+    labelLine('Trust        ', trustValue, style(TRUST_COLORS[trust.level], trustValue), lines);
+  }
+
   lines.push(boxEmpty());
 
   const hash = cert.verification.hash;
   labelLine('Hash         ', hash, style('dim', hash), lines);
 
+  const signature = cert.verification.signature;
+  if (signature) {
+    labelLine('Signed by    ', signature.keyId, signature.keyId, lines);
+  }
+
   lines.push(boxRule());
 
   out.write('\n' + lines.join('\n') + '\n\n');
 }
 
+const BADGE_FILE = 'lastgen-badge.svg';
+
+/** Markdown for a badge committed next to the README, so no image service sees the lookup. */
 export function displayBadgeMarkdown(cert: Certificate): void {
   const out = process.stdout;
-  const eraLabel = cert.era === 'LAST_GEN' ? 'Last%20Gen' : 'AI%20Native';
-  const color = cert.era === 'LAST_GEN' ? 'blue' : 'brightgreen';
-  const badgeUrl = `https://img.shields.io/badge/lastgen-${eraLabel}-${color}?style=for-the-badge`;
 
   out.write('\n');
-  out.write(style('bold', '  Add to your GitHub README:') + '\n');
+  out.write(style('bold', '  Save the badge next to your README:') + '\n');
+  out.write('\n');
+  out.write(`  lastgen ${cert.identity.username} --badge-svg > ${BADGE_FILE}\n`);
   out.write('\n');
-  out.write(`  [![Last Gen Coder](${badgeUrl})](https://github.com/pgagnidze/lastgen)\n`);
+  out.write(style('bold', '  Then add to your README:') + '\n');
   out.write('\n');
+  out.write(`  [![Last Gen Coder](${BADGE_FILE})](https://github.com/pgagnidze/lastgen)\n`);
+  out.write('\n');
+}
+
+const HISTOGRAM_WIDTH = 30;
+
+/**
+ * Prints an era breakdown, a proof-date histogram, and members without public commits.
+ * `policy` is the one the census was built with.
+ */
+export function displayCensus(
+  title: string,
+  census: EraCensus,
+  policy: EraPolicy = DEFAULT_POLICY,
+): void {
+  const lines: string[] = [];
+  const keys = policy.eras.map((era) => era.key);
+  const width = Math.max('FAILED'.length, ...keys.map((key) => key.length));
+  const eraLines = (counts: Record<string, number>): string[] => {
+    const total = keys.reduce((sum, key) => sum + (counts[key] ?? 0), 0);
+    return keys.map((key, index) => {
+      const count = counts[key] ?? 0;
+      const share = total > 0 ? `${Math.round((count / total) * 100)}%` : '-';
+      const color = index === keys.length - 1 ? 'cyan' : 'green';
+      return `${style(color, key.padEnd(width))}  ${String(count).padStart(5)}  ${share}`;
+    });
+  };
+
+  lines.push(style('bold', title));
+  lines.push('');
+  lines.push(...eraLines(census.eras));
+  if (census.failed.length > 0) {
+    lines.push(
+      `${style('red', 'FAILED'.padEnd(width))}  ${String(census.failed.length).padStart(5)}`,
+    );
+  }
+
+  if (census.weighted) {
+    lines.push('');
+    lines.push(style('bold', 'Weighted by contributions'));
+    lines.push(...eraLines(census.weighted));
+  }
+
+  if (census.byYear.length > 0) {
+    const max = Math.max(...census.byYear.map((entry) => entry.count));
+    lines.push('');
+    lines.push(style('bold', 'Proof dates by year'));
+    for (const { year, count } of census.byYear) {
+      const bar = '#'.repeat(Math.max(1, Math.round((count / max) * HISTOGRAM_WIDTH)));
+      lines.push(`${year}  ${style('dim', bar)} ${count}`);
+    }
+  }
+
+  if (census.noCommits.length > 0) {
+    lines.push('');
+    lines.push(style('bold', `No public commits (${census.noCommits.length})`));
+    lines.push(style('dim', census.noCommits.join(', ')));
+  }
+
+  for (const reason of ['bot', 'anonymous'] as const) {
+    const skipped = census.skipped.filter((entry) => entry.reason === reason);
+    if (skipped.length === 0) continue;
+    const label = reason === 'bot' ? 'Skipped bots' : 'Skipped anonymous contributors';
+    const weight = skipped.reduce((sum, entry) => sum + entry.weight, 0);
+    lines.push('');
+    lines.push(style('bold', `${label} (${skipped.length}, ${weight} contributions)`));
+    lines.push(style('dim', skipped.map((entry) => entry.username).join(', ')));
+  }
+
+  process.stdout.write('\n' + lines.map((line) => (line ? `  ${line}` : line)).join('\n') + '\n\n');
 }
 
 export function displayJson(cert: Certificate): void {
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+
+import { handleGitHubProxy } from './gh-proxy.ts';
+
+const UPSTREAM = 'https://api.github.com';
+
+/** Upstream answers keyed by path and query; anything else is a 404. */
+const upstream: Record<string, unknown> = {
+  '/users/alice': { login: 'alice', id: 42 },
+  '/repos/alice/public': { full_name: 'alice/public', private: false },
+  '/repos/alice/secret': { full_name: 'alice/secret', private: true },
+  '/repos/alice/public/commits/abc123': { sha: 'abc123' },
+  '/repos/alice/secret/commits/abc123': { sha: 'abc123' },
+  '/gists/open': { id: 'open', public: true },
+  '/gists/hidden': { id: 'hidden', public: false },
+  '/search/commits?q=author%3Aalice+is%3Apublic': { total_count: 1, items: [] },
+};
+const requested: Array<{ url: string; authorization: string | undefined }> = [];
+
+const fakeFetch = async (input: string | URL, init?: { headers?: unknown }): Promise<Response> => {
+  const url = String(input);
+  const headers = init?.headers as Record<string, string> | undefined;
+  requested.push({ url, authorization: headers?.['Authorization'] });
+  const body = upstream[url.slice(UPSTREAM.length)];
+  if (body === undefined) return new Response('{"message":"Not Found"}', { status: 404 });
+  return new Response(JSON.stringify(body), {
+    headers: { 'content-type': 'application/json', 'x-ratelimit-remaining': '4999' },
+  });
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  void handleGitHubProxy(req.method, res, url.pathname, url.search, {
+    apiUrl: UPSTREAM,
+    token: 'operator-token',
+    fetch: fakeFetch as typeof fetch,
+  });
+});
+let base = '';
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+after(() => server.close());
+
+async function get(path: string, method = 'GET'): Promise<{ status: number; response: Response }> {
+  const response = await fetch(`${base}${path}`, { method });
+  return { status: response.status, response };
+}
+
+describe('GitHub proxy', () => {
+  it('forwards allowed endpoints with the operator token and rate-limit headers', async () => {
+    requested.length = 0;
+    const { status, response } = await get('/gh/users/alice');
+
+    assert.equal(status, 200);
+    assert.equal(response.headers.get('x-ratelimit-remaining'), '4999');
+    assert.equal(response.headers.get('cache-control'), 'no-store');
+    assert.deepEqual(await response.json(), { login: 'alice', id: 42 });
+    assert.deepEqual(requested, [
+      { url: `${UPSTREAM}/users/alice`, authorization: 'token operator-token' },
+    ]);
+  });
+
+  it('refuses endpoints outside the allow list and methods other than GET', async () => {
+    assert.equal((await get('/gh/user/repos')).status, 403);
+    assert.equal((await get('/gh/users/alice', 'POST')).status, 405);
+  });
+
+  it('hides private repos and anything under them', async () => {
+    assert.equal((await get('/gh/repos/alice/public')).status, 200);
+    assert.equal((await get('/gh/repos/alice/public/commits/abc123')).status, 200);
+    assert.equal((await get('/gh/repos/alice/secret')).status, 404);
+
+    requested.length = 0;
+    const { status, response } = await get('/gh/repos/alice/secret/commits/abc123');
+    assert.equal(status, 404);
+    assert.deepEqual(await response.json(), { message: 'Not Found' });
+    assert.deepEqual(
+      requested.map((entry) => entry.url),
+      [`${UPSTREAM}/repos/alice/secret`],
+    );
+  });
+
+  it('hides secret gists', async () => {
+    assert.equal((await get('/gh/gists/open')).status, 200);
+    assert.equal((await get('/gh/gists/hidden')).status, 404);
+  });
+
+  it('limits searches to public repositories', async () => {
+    requested.length = 0;
+    const { status } = await get('/gh/search/commits?q=author%3Aalice');
+
+    assert.equal(status, 200);
+    assert.equal(requested[0]?.url, `${UPSTREAM}/search/commits?q=author%3Aalice+is%3Apublic`);
+  });
+});
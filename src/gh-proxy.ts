@@ -0,0 +1,148 @@
+/**
+ * @fileoverview GitHub API proxy for the web UI under `lastgen serve`. The browser has no
+ * token, so its lookups exhaust the anonymous search limit within a couple of requests;
+ * through `/gh/*` they carry the operator's token and share the on-disk response cache.
+ * Only the GET endpoints a lookup and verification need are forwarded, and only public
+ * data passes: the token may see private repos, but whoever can reach the server must not.
+ */
+
+import type { ServerResponse } from 'node:http';
+import { URLSearchParams } from 'node:url';
+
+export interface GitHubProxyOptions {
+  /** Upstream API, e.g. https://api.github.com or a GitHub Enterprise Server /api/v3. */
+  apiUrl: string;
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+/** Path prefix of the proxy, announced to the web UI in index.html. */
+export const GITHUB_PROXY_PATH = '/gh';
+
+/** Endpoints used by the GitHub provider's lookup and verification calls. */
+const ALLOWED_PATHS: RegExp[] = [
+  /^\/users\/[^/]+$/,
+  /^\/users\/[^/]+\/(gists|repos)$/,
+  /^\/user\/\d+$/,
+  /^\/repos\/[^/]+\/[^/]+$/,
+  /^\/repos\/[^/]+\/[^/]+\/commits\/[0-9a-f]+$/i,
+  /^\/repos\/[^/]+\/[^/]+\/issues\/\d+$/,
+  /^\/search\/(commits|issues)$/,
+  /^\/gists\/[^/]+$/,
+];
+
+/** A repository and anything under it, which is forwarded only when the repo is public. */
+const REPO_PATH = /^\/repos\/[^/]+\/[^/]+/;
+const GIST_PATH = /^\/gists\/[^/]+$/;
+
+/** Upstream headers the browser client reads: pagination and rate-limit state. */
+const FORWARDED_HEADERS = [
+  'content-type',
+  'link',
+  'retry-after',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'x-ratelimit-used',
+];
+
+export function isGitHubProxyPath(path: string): boolean {
+  return path === GITHUB_PROXY_PATH || path.startsWith(`${GITHUB_PROXY_PATH}/`);
+}
+
+/**
+ * Forwards `/gh/<endpoint>?<query>` to the upstream API with the operator's token. Status,
+ * body and rate-limit headers pass through unchanged, so the browser client's retry and
+ * pagination logic works as if it called GitHub directly.
+ */
+export async function handleGitHubProxy(
+  method: string | undefined,
+  res: ServerResponse,
+  path: string,
+  search: string,
+  options: GitHubProxyOptions,
+): Promise<void> {
+  const endpoint = path.slice(GITHUB_PROXY_PATH.length);
+  if (method !== 'GET') {
+    res.writeHead(405, { 'Content-Type': 'application/json; charset=utf-8', Allow: 'GET' });
+    res.end(JSON.stringify({ message: 'The GitHub proxy only forwards GET requests' }) + '\n');
+    return;
+  }
+  if (!ALLOWED_PATHS.some((pattern) => pattern.test(endpoint))) {
+    res.writeHead(403, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify({ message: `${endpoint} is not forwarded by the proxy` }) + '\n');
+    return;
+  }
+
+  const repoPath = REPO_PATH.exec(endpoint)?.[0];
+  let upstream: Response;
+  let body: string;
+  try {
+    if (repoPath && repoPath !== endpoint && !(await isPublicRepo(repoPath, options))) {
+      writeNotFound(res);
+      return;
+    }
+    const query = endpoint.startsWith('/search/') ? publicSearch(search) : search;
+    upstream = await fetchUpstream(`${endpoint}${query}`, options);
+    body = await upstream.text();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.writeHead(502, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify({ message: `GitHub API unreachable: ${message}` }) + '\n');
+    return;
+  }
+
+  if (upstream.ok && !isPublicBody(endpoint, body)) {
+    writeNotFound(res);
+    return;
+  }
+
+  const forwarded: Record<string, string> = { 'Cache-Control': 'no-store' };
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value !== null) forwarded[name] = value;
+  }
+  res.writeHead(upstream.status, forwarded);
+  res.end(body);
+}
+
+function fetchUpstream(endpoint: string, options: GitHubProxyOptions): Promise<Response> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github.v3+json',
+    'User-Agent': 'lastgen-serve',
+  };
+  if (options.token) {
+    headers['Authorization'] = `token ${options.token}`;
+  }
+  return (options.fetch ?? fetch)(`${options.apiUrl}${endpoint}`, { headers });
+}
+
+/** As GitHub answers for a repo the caller can't see. */
+function writeNotFound(res: ServerResponse): void {
+  res.writeHead(404, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify({ message: 'Not Found' }) + '\n');
+}
+
+/** Limits a search to public repositories, whatever the query asks for. */
+function publicSearch(search: string): string {
+  const params = new URLSearchParams(search);
+  params.set('q', `${params.get('q') ?? ''} is:public`.trim());
+  return `?${params}`;
+}
+
+async function isPublicRepo(repoPath: string, options: GitHubProxyOptions): Promise<boolean> {
+  const response = await fetchUpstream(repoPath, options);
+  return response.ok && isPublicBody(repoPath, await response.text());
+}
+
+/** False for a private repo or secret gist; other endpoints only return public data. */
+function isPublicBody(endpoint: string, body: string): boolean {
+  const isRepo = REPO_PATH.exec(endpoint)?.[0] === endpoint;
+  if (!isRepo && !GIST_PATH.test(endpoint)) return true;
+  try {
+    const data = JSON.parse(body) as { private?: unknown; public?: unknown };
+    return isRepo ? data.private === false : data.public === true;
+  } catch {
+    return false;
+  }
+}
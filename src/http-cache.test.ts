@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync, statSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+
+import { clearCache, createCachedFetch, readCacheStats, resolveCacheDir } from './http-cache.ts';
+
+const root = mkdtempSync(join(tmpdir(), 'lastgen-cache-'));
+const dir = join(root, 'cache');
+after(() => rmSync(root, { recursive: true, force: true }));
+beforeEach(() => rmSync(dir, { recursive: true, force: true }));
+
+/** Answers 304 when If-None-Match carries the ETag, and records each request's headers. */
+function etagServer(etag = '"v1"') {
+  const requests: Array<Record<string, string>> = [];
+  const fakeFetch = async (
+    _input: string | URL,
+    init?: { headers?: unknown },
+  ): Promise<Response> => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    requests.push(headers);
+    if (headers['If-None-Match'] === etag) {
+      return new Response(null, { status: 304, headers: { 'x-ratelimit-remaining': '41' } });
+    }
+    return new Response(JSON.stringify({ login: 'alice' }), {
+      status: 200,
+      headers: { etag, 'content-type': 'application/json', 'x-ratelimit-remaining': '42' },
+    });
+  };
+  return { fetch: fakeFetch as typeof fetch, requests };
+}
+
+describe('createCachedFetch', () => {
+  it('revalidates with the stored ETag and replays the body on a 304', async () => {
+    const server = etagServer();
+    const cachedFetch = createCachedFetch(dir, server.fetch);
+    const url = 'https://api.github.com/users/alice';
+
+    await cachedFetch(url, { headers: { Accept: 'application/json' } });
+    const replayed = await cachedFetch(url, { headers: { Accept: 'application/json' } });
+
+    assert.equal(server.requests[1]?.['If-None-Match'], '"v1"');
+    assert.equal(replayed.status, 200);
+    assert.deepEqual(await replayed.json(), { login: 'alice' });
+    assert.equal(replayed.headers.get('x-ratelimit-remaining'), '41');
+    assert.equal(readCacheStats(dir).hits, 1);
+  });
+
+  it('never replays a response to a request with another token', async () => {
+    const server = etagServer();
+    const cachedFetch = createCachedFetch(dir, server.fetch);
+    const url = 'https://api.github.com/user/42';
+
+    await cachedFetch(url, { headers: { Authorization: 'token one' } });
+    await cachedFetch(url, { headers: { Authorization: 'token two' } });
+    await cachedFetch(url, {});
+
+    assert.deepEqual(
+      server.requests.map((headers) => headers['If-None-Match']),
+      [undefined, undefined, undefined],
+    );
+    assert.equal(clearCache(dir), 3);
+  });
+
+  it('keeps the directory and entries private to the owner', async () => {
+    await createCachedFetch(dir, etagServer().fetch)('https://api.github.com/users/alice');
+    const [entry] = readdirSync(dir);
+
+    assert.equal(statSync(dir).mode & 0o777, 0o700);
+    assert.equal(statSync(join(dir, entry ?? '')).mode & 0o777, 0o600);
+  });
+
+  it('prunes the least recently written entries beyond the size cap', async () => {
+    const cachedFetch = createCachedFetch(dir, etagServer().fetch);
+    for (const user of ['old', 'mid', 'new']) {
+      await cachedFetch(`https://api.github.com/users/${user}`);
+    }
+    const files = readdirSync(dir).map((name) => join(dir, name));
+    const size = statSync(files[0] ?? '').size;
+    files.forEach((file, index) => utimesSync(file, index + 1, index + 1));
+
+    createCachedFetch(dir, etagServer().fetch, size * 2);
+
+    assert.deepEqual(
+      readdirSync(dir).sort(),
+      files
+        .slice(1)
+        .map((f) => f.slice(dir.length + 1))
+        .sort(),
+    );
+  });
+});
+
+describe('resolveCacheDir', () => {
+  it('prefers the configured directory over XDG_CACHE_HOME', () => {
+    process.env.XDG_CACHE_HOME = join(root, 'xdg');
+
+    assert.equal(resolveCacheDir(join(root, 'configured')), join(root, 'configured'));
+    assert.equal(resolveCacheDir(), join(root, 'xdg', 'lastgen'));
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Persistent HTTP cache for the CLI. Wraps fetch so responses carrying an
+ * ETag are kept on disk and revalidated with If-None-Match; a 304 is served from disk
+ * and doesn't count against the forge's rate limit.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/** Stored headers a cached response needs to be replayed, e.g. Link for pagination. */
+const STORED_HEADERS = ['content-type', 'link', 'etag', 'last-modified'];
+/** Headers taken from the 304, so rate-limit tracking sees current numbers. */
+const FRESH_HEADER_PATTERN = /^(x-ratelimit-|ratelimit-|retry-after$)/;
+/** Least recently written entries beyond this total size are pruned when a cache opens. */
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+interface CacheEntry {
+  url: string;
+  etag: string;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: string;
+  /** Times the entry was revalidated with a 304 instead of downloaded again. */
+  hits: number;
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  hits: number;
+  oldest: string | null;
+  newest: string | null;
+}
+
+/**
+ * `configured` (the config file's cacheDir), then `$XDG_CACHE_HOME/lastgen`, falling back
+ * to `~/.cache/lastgen`.
+ */
+export function resolveCacheDir(configured?: string): string {
+  if (configured) return configured;
+  if (process.env.XDG_CACHE_HOME) return join(process.env.XDG_CACHE_HOME, 'lastgen');
+  return join(homedir(), '.cache', 'lastgen');
+}
+
+/**
+ * Entries are keyed by URL, Accept and Authorization, so a response fetched with one
+ * token is never replayed to a request made with another, or with none.
+ */
+function cacheKey(url: string, headers: Record<string, string>): string {
+  const accept = headers['Accept'] ?? '';
+  const auth = headers['Authorization'] ?? headers['PRIVATE-TOKEN'] ?? '';
+  return createHash('sha256').update(`${url}\n${accept}\n${auth}`).digest('hex');
+}
+
+function readEntry(file: string): CacheEntry | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A cache write that fails only loses the cache; the lookup goes on. Bodies may hold
+ * private data fetched with the user's token, so only the owner can read them.
+ */
+function writeEntry(dir: string, file: string, entry: CacheEntry): void {
+  try {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+    writeFileSync(file, JSON.stringify(entry), { mode: 0o600 });
+  } catch {}
+}
+
+/** Deletes the least recently written entries until the cache fits in maxBytes. */
+function pruneCache(dir: string, maxBytes: number): void {
+  const files = listEntryFiles(dir).flatMap((file) => {
+    try {
+      const { size, mtimeMs } = statSync(file);
+      return [{ file, size, mtimeMs }];
+    } catch {
+      return [];
+    }
+  });
+  let total = files.reduce((sum, entry) => sum + entry.size, 0);
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const entry of files) {
+    if (total <= maxBytes) break;
+    rmSync(entry.file, { force: true });
+    total -= entry.size;
+  }
+}
+
+export function createCachedFetch(
+  dir: string,
+  fetchFn: typeof fetch = fetch,
+  maxBytes = MAX_CACHE_BYTES,
+): typeof fetch {
+  pruneCache(dir, maxBytes);
+  return async (input, init) => {
+    const method = init?.method ?? 'GET';
+    if (typeof input !== 'string' || method !== 'GET') {
+      return fetchFn(input, init);
+    }
+
+    const headers = { ...(init?.headers as Record<string, string> | undefined) };
+    const file = join(dir, `${cacheKey(input, headers)}.json`);
+    const cached = readEntry(file);
+    if (cached) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    const response = await fetchFn(input, { ...init, headers });
+
+    if (response.status === 304 && cached) {
+      const replayed: Record<string, string> = { ...cached.headers };
+      response.headers.forEach((value, name) => {
+        if (FRESH_HEADER_PATTERN.test(name)) replayed[name] = value;
+      });
+      writeEntry(dir, file, { ...cached, hits: cached.hits + 1 });
+      return new Response(cached.body, { status: 200, headers: replayed });
+    }
+
+    const etag = response.headers.get('etag');
+    if (response.status !== 200 || !etag) {
+      return response;
+    }
+
+    const body = await response.text();
+    const stored: Record<string, string> = {};
+    for (const name of STORED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) stored[name] = value;
+    }
+    writeEntry(dir, file, {
+      url: input,
+      etag,
+      headers: stored,
+      body,
+      storedAt: new Date().toISOString(),
+      hits: 0,
+    });
+    return new Response(body, { status: response.status, headers: response.headers });
+  };
+}
+
+function listEntryFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+export function readCacheStats(dir: string): CacheStats {
+  const stats: CacheStats = { dir, entries: 0, bytes: 0, hits: 0, oldest: null, newest: null };
+  for (const file of listEntryFiles(dir)) {
+    const entry = readEntry(file);
+    if (!entry) continue;
+    stats.entries++;
+    stats.bytes += statSync(file).size;
+    stats.hits += entry.hits;
+    if (!stats.oldest || entry.storedAt < stats.oldest) stats.oldest = entry.storedAt;
+    if (!stats.newest || entry.storedAt > stats.newest) stats.newest = entry.storedAt;
+  }
+  return stats;
+}
+
+/** Deletes every cache entry. Returns how many were removed. */
+export function clearCache(dir: string): number {
+  const files = listEntryFiles(dir);
+  for (const file of files) {
+    rmSync(file, { force: true });
+  }
+  return files.length;
+}
@@ -1,12 +1,17 @@
 #!/usr/bin/env node
 
 import { run } from './cli.ts';
-import { error } from './display.ts';
+import { isTransientError } from './core/retry.ts';
+import { error, info } from './display.ts';
 
 try {
   await run(process.argv.slice(2));
 } catch (err) {
   const message = err instanceof Error ? err.message : String(err);
   error(message);
+  if (isTransientError(err)) {
+    info('This is a temporary failure, not a lookup result. Try again later,');
+    info('or pass --wait-for-rate-limit to sleep until the rate limit resets.');
+  }
   process.exitCode = 1;
 }
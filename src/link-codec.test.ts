@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { deflateRawSync } from 'node:zlib';
+import { describe, it } from 'node:test';
+
+import {
+  MAX_INFLATED_BYTES,
+  decodeCertificateLink,
+  encodeCertificateLink,
+  isCertificateLink,
+} from './core/share-link.ts';
+import { nodeLinkCodec } from './link-codec.ts';
+
+const cert = {
+  type: 'LASTGEN_CERTIFICATE',
+  identity: { username: 'alice', name: 'Zoë Ålice' },
+  certificateNumber: 'LGC-ABCD-123456',
+};
+
+describe('share link codec', () => {
+  it('round-trips a certificate through the fragment', async () => {
+    const link = await encodeCertificateLink(cert, nodeLinkCodec, 'https://example.com/app/#old');
+
+    assert.match(link, /^https:\/\/example\.com\/app\/#cert=[\w-]+$/);
+    assert.equal(isCertificateLink(link), true);
+    assert.deepEqual(await decodeCertificateLink(link, nodeLinkCodec), cert);
+  });
+
+  it('reports truncated and missing payloads', async () => {
+    const link = await encodeCertificateLink(cert, nodeLinkCodec);
+
+    await assert.rejects(
+      decodeCertificateLink(link.slice(0, -12), nodeLinkCodec),
+      /corrupted or truncated|not valid JSON/,
+    );
+    assert.equal(isCertificateLink('https://example.com/#other=1'), false);
+    await assert.rejects(
+      decodeCertificateLink('https://example.com/', nodeLinkCodec),
+      /no #cert= certificate/,
+    );
+  });
+
+  it('refuses payloads that inflate past the limit', async () => {
+    const bomb = deflateRawSync(Buffer.alloc(MAX_INFLATED_BYTES + 1024, 0x20));
+    const link = `https://example.com/#cert=${bomb.toString('base64url')}`;
+
+    await assert.rejects(decodeCertificateLink(link, nodeLinkCodec), /corrupted or truncated/);
+  });
+});
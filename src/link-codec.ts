@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Node.js share-link codec: raw DEFLATE via node:zlib, then base64url.
+ */
+
+import { Buffer } from 'node:buffer';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+import type { LinkCodec } from './core/types.ts';
+import { MAX_INFLATED_BYTES } from './core/share-link.ts';
+
+export const nodeLinkCodec: LinkCodec = {
+  pack: async (text) =>
+    deflateRawSync(Buffer.from(text, 'utf-8'), { level: 9 }).toString('base64url'),
+  unpack: async (payload) =>
+    inflateRawSync(Buffer.from(payload, 'base64url'), {
+      maxOutputLength: MAX_INFLATED_BYTES,
+    }).toString('utf-8'),
+};
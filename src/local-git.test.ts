@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { createLocalCertificate } from './core/proof.ts';
+import { verifyCertificateData } from './core/verify.ts';
+import { nodeHash } from './hash.ts';
+import { createLocalRepoReader, readLocalHistory } from './local-git.ts';
+
+const root = mkdtempSync(join(tmpdir(), 'lastgen-local-'));
+const repo = join(root, 'repo');
+after(() => rmSync(root, { recursive: true, force: true }));
+
+function commit(file: string, email: string, date: string): void {
+  writeFileSync(join(repo, file), file);
+  const env = {
+    ...process.env,
+    GIT_CONFIG_GLOBAL: '/dev/null',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_AUTHOR_NAME: email.split('@')[0],
+    GIT_AUTHOR_EMAIL: email,
+    GIT_AUTHOR_DATE: date,
+    GIT_COMMITTER_NAME: 'committer',
+    GIT_COMMITTER_EMAIL: 'committer@example.com',
+    GIT_COMMITTER_DATE: date,
+  };
+  execFileSync('git', ['-C', repo, 'add', file], { env });
+  execFileSync('git', ['-C', repo, 'commit', '-q', '-m', `add ${file}`], { env });
+}
+
+before(() => {
+  execFileSync('git', ['init', '-q', repo]);
+  commit('root.txt', 'bob@example.com', '2009-01-01T00:00:00Z');
+  commit('first.txt', 'Alice@Example.com', '2011-06-01T12:00:00Z');
+  commit('later.txt', 'alice@example.com', '2024-01-01T00:00:00Z');
+});
+
+describe('readLocalHistory', () => {
+  it("finds the earliest commit by any of the user's emails", async () => {
+    const history = await readLocalHistory(repo, ['alice@example.com']);
+
+    assert.equal(history?.authorName, 'Alice');
+    assert.equal(history?.firstCommit.date, '2011-06-01T12:00:00.000Z');
+    assert.equal(history?.firstCommit.repoCreatedAt, '2009-01-01T00:00:00.000Z');
+    assert.equal(history?.firstCommit.repo, 'repo');
+    assert.equal(await readLocalHistory(repo, ['carol@example.com']), null);
+  });
+
+  it('reads a commit back by its SHA', async () => {
+    const history = await readLocalHistory(repo, ['alice@example.com']);
+    const detail = await createLocalRepoReader(repo).fetchCommit(history?.firstCommit.sha ?? '');
+
+    assert.equal(detail.authorEmail, 'Alice@Example.com');
+    assert.equal(detail.isRootCommit, false);
+    await assert.rejects(createLocalRepoReader(repo).fetchCommit('HEAD~1'), /Invalid commit SHA/);
+  });
+});
+
+describe('local-git verification', () => {
+  async function certificate() {
+    const history = await readLocalHistory(repo, ['alice@example.com']);
+    assert.ok(history);
+    return createLocalCertificate(
+      nodeHash,
+      { username: 'Alice', name: null },
+      history.firstCommit,
+      { kind: 'local-git', emails: ['alice@example.com'] },
+    );
+  }
+
+  it('passes against the clone the certificate came from', async () => {
+    const result = await verifyCertificateData(await certificate(), nodeHash, {
+      localRepo: createLocalRepoReader(repo),
+    });
+
+    assert.equal(result.status, 'valid');
+  });
+
+  it('fails the repo check instead of throwing when the path is not a repository', async () => {
+    const result = await verifyCertificateData(await certificate(), nodeHash, {
+      localRepo: createLocalRepoReader(join(root, 'missing')),
+    });
+    const repoCheck = result.results.find((entry) => entry.check === 'Repo creation');
+
+    assert.equal(result.status, 'invalid');
+    assert.equal(repoCheck?.passed, false);
+    assert.match(repoCheck?.detail ?? '', /Could not read root commits/);
+  });
+});
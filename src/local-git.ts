@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Reads commit history from a local clone with plain git, for proofs
+ * from private or self-hosted repos that the forge API can't see.
+ */
+
+import { execFile } from 'node:child_process';
+import { basename } from 'node:path';
+import { promisify } from 'node:util';
+
+import type { CommitDetail, FirstCommit } from './core/types.ts';
+import type { LocalRepoReader } from './core/verify.ts';
+import { getEffectiveCommitDate } from './core/proof.ts';
+
+const execFileAsync = promisify(execFile);
+
+const FIELD_SEP = '\x1f';
+const RECORD_SEP = '\x1e';
+const COMMIT_FORMAT = ['%H', '%an', '%ae', '%aI', '%cI', '%P', '%s'].join('%x1f') + '%x1e';
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+interface LocalCommit {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  authorDate: string;
+  committerDate: string;
+  parents: string[];
+  message: string;
+}
+
+export interface LocalHistoryResult {
+  firstCommit: FirstCommit;
+  authorName: string;
+}
+
+async function git(repoPath: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', repoPath, ...args], {
+      maxBuffer: MAX_BUFFER,
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git failed in ${repoPath}: ${stderr || (err as Error).message}`, {
+      cause: err,
+    });
+  }
+}
+
+function parseCommits(output: string): LocalCommit[] {
+  return output
+    .split(RECORD_SEP)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [sha, authorName, authorEmail, authorDate, committerDate, parents, message] =
+        record.split(FIELD_SEP);
+      return {
+        sha: sha ?? '',
+        authorName: authorName ?? '',
+        authorEmail: authorEmail ?? '',
+        authorDate: authorDate ?? '',
+        committerDate: committerDate ?? '',
+        parents: (parents ?? '').split(' ').filter((p) => p.length > 0),
+        message: message ?? '',
+      };
+    });
+}
+
+function toIso(date: string): string {
+  return new Date(date).toISOString();
+}
+
+async function readRootCommitDate(repoPath: string): Promise<string | null> {
+  const output = await git(repoPath, ['log', '--all', '--max-parents=0', '--format=%aI']);
+  const times = output
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line) => new Date(line.trim()).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)).toISOString() : null;
+}
+
+/**
+ * Finds the earliest commit on any ref authored by one of the given emails. Commits are
+ * ordered by their effective date, so a backdated author date doesn't win on its own.
+ */
+export async function readLocalHistory(
+  repoPath: string,
+  emails: string[],
+): Promise<LocalHistoryResult | null> {
+  const wanted = new Set(emails.map((e) => e.toLowerCase()));
+  const authorArgs = emails.map((e) => `--author=${e}`);
+  const output = await git(repoPath, [
+    'log',
+    '--all',
+    '--regexp-ignore-case',
+    '--fixed-strings',
+    ...authorArgs,
+    `--format=${COMMIT_FORMAT}`,
+  ]);
+
+  let earliest: { commit: LocalCommit; time: number } | null = null;
+  for (const commit of parseCommits(output)) {
+    if (!wanted.has(commit.authorEmail.toLowerCase())) continue;
+    const time = new Date(
+      getEffectiveCommitDate({
+        date: commit.authorDate,
+        committerDate: commit.committerDate,
+        repo: '',
+        sha: commit.sha,
+        message: '',
+      }),
+    ).getTime();
+    if (!earliest || time < earliest.time) {
+      earliest = { commit, time };
+    }
+  }
+
+  if (!earliest) {
+    return null;
+  }
+
+  const toplevel = (await git(repoPath, ['rev-parse', '--show-toplevel'])).trim();
+  const rootCommitDate = await readRootCommitDate(repoPath);
+  const { commit } = earliest;
+
+  return {
+    authorName: commit.authorName,
+    firstCommit: {
+      date: toIso(commit.authorDate),
+      repo: basename(toplevel),
+      sha: commit.sha,
+      message: commit.message,
+      repoCreatedAt: rootCommitDate ?? undefined,
+      committerDate: toIso(commit.committerDate),
+    },
+  };
+}
+
+export function createLocalRepoReader(repoPath: string): LocalRepoReader {
+  return {
+    fetchCommit: async (sha: string): Promise<CommitDetail> => {
+      if (!/^[0-9a-f]{4,64}$/i.test(sha)) {
+        throw new Error(`Invalid commit SHA: ${sha}`);
+      }
+      const output = await git(repoPath, ['show', '-s', `--format=${COMMIT_FORMAT}`, sha]);
+      const commit = parseCommits(output)[0];
+      if (!commit) {
+        throw new Error(`Commit ${sha} not found`);
+      }
+      return {
+        sha: commit.sha,
+        authorLogin: null,
+        committerLogin: null,
+        authorEmail: commit.authorEmail,
+        authorDate: toIso(commit.authorDate),
+        committerDate: toIso(commit.committerDate),
+        authorId: null,
+        verificationReason: null,
+        isRootCommit: commit.parents.length === 0,
+        message: commit.message,
+        verified: false,
+      };
+    },
+    fetchRootCommitDate: () => readRootCommitDate(repoPath),
+  };
+}
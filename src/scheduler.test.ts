@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { createScheduler } from './scheduler.ts';
+
+function rateLimited(remaining: number, resetAt: number, resource?: string): Response {
+  const headers: Record<string, string> = {
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(Math.floor(resetAt / 1000)),
+  };
+  if (resource) headers['x-ratelimit-resource'] = resource;
+  return new Response('{}', { headers });
+}
+
+describe('scheduler map', () => {
+  it('never runs more tasks than the concurrency at once', async () => {
+    const scheduler = createScheduler({ concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+
+    const results = await scheduler.map([1, 2, 3, 4, 5], async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+      return item * 10;
+    });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(
+      results.map((result) => (result.status === 'fulfilled' ? result.value : null)),
+      [10, 20, 30, 40, 50],
+    );
+  });
+
+  it('keeps going after a task fails and keeps results in input order', async () => {
+    const scheduler = createScheduler({ concurrency: 3 });
+    const results = await scheduler.map(['a', 'b', 'c'], async (item) => {
+      if (item === 'b') throw new Error('boom');
+      return item.toUpperCase();
+    });
+
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ['fulfilled', 'rejected', 'fulfilled'],
+    );
+    assert.equal(results[2]?.status === 'fulfilled' && results[2].value, 'C');
+  });
+});
+
+describe('scheduler fetch', () => {
+  it('pauses a window that has reached its reserve until it resets', async () => {
+    // A reset a second out, so the margin puts the pause between one and two seconds.
+    const resetAt = Date.now() + 1000;
+    const waits: string[] = [];
+    const calls: number[] = [];
+    const scheduler = createScheduler({
+      concurrency: 1,
+      reserve: 1,
+      onWait: (resource) => waits.push(resource),
+      fetch: (async () => {
+        calls.push(Date.now());
+        return rateLimited(1, resetAt);
+      }) as typeof fetch,
+    });
+
+    await scheduler.fetch('https://api.github.com/users/alice');
+    await scheduler.fetch('https://api.github.com/users/bob');
+
+    assert.deepEqual(waits, ['core']);
+    assert.ok((calls[1] ?? 0) - (calls[0] ?? 0) >= 900, 'second request was not delayed');
+  });
+
+  it('tracks the search window separately from the core window', async () => {
+    const waits: string[] = [];
+    const scheduler = createScheduler({
+      concurrency: 1,
+      reserve: 1,
+      onWait: (resource) => waits.push(resource),
+      fetch: (async (input: string | URL) =>
+        String(input).includes('/search/')
+          ? rateLimited(0, Date.now() + 60_000, 'search')
+          : rateLimited(4000, Date.now() + 60_000)) as typeof fetch,
+    });
+
+    await scheduler.fetch('https://api.github.com/search/commits?q=author:alice');
+    await scheduler.fetch('https://api.github.com/users/alice');
+
+    assert.deepEqual(waits, []);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Rate-limit-aware scheduler for commands that look up many users.
+ * Runs tasks with bounded concurrency and wraps fetch so every request shares one view
+ * of the forge's rate-limit headers, pausing before a window runs dry.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/** Margin added after a reset time, to absorb clock skew. */
+const RESET_MARGIN_MS = 1000;
+
+export interface SchedulerOptions {
+  /** Tasks run at once. */
+  concurrency: number;
+  /** Requests kept in reserve per rate-limit window. Defaults to the concurrency. */
+  reserve?: number;
+  /** Called when requests are paused until a rate-limit window resets. */
+  onWait?: (resource: string, resumeAt: Date) => void;
+  /** Fetch that requests go through, e.g. a caching one. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+export interface Scheduler {
+  fetch: typeof fetch;
+  /** Runs a task per item. A failed task doesn't stop the others. */
+  map: <T, R>(
+    items: T[],
+    task: (item: T, index: number) => Promise<R>,
+  ) => Promise<Array<PromiseSettledResult<R>>>;
+}
+
+interface RateWindow {
+  remaining: number;
+  resetAt: number;
+}
+
+/** GitHub reports the search API's separate window on /search requests. */
+function guessResource(url: string): string {
+  return url.includes('/search/') ? 'search' : 'core';
+}
+
+function readWindow(headers: Response['headers']): RateWindow | null {
+  const remaining = headers.get('x-ratelimit-remaining') ?? headers.get('ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset');
+  if (remaining === null || reset === null) return null;
+  return { remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+}
+
+export function createScheduler(options: SchedulerOptions): Scheduler {
+  const concurrency = Math.max(1, options.concurrency);
+  const reserve = options.reserve ?? concurrency;
+  const windows = new Map<string, RateWindow>();
+  const pauses = new Map<string, Promise<void>>();
+  const fetchFn = options.fetch ?? fetch;
+
+  /** Blocks while a window is nearly spent. Concurrent callers share one pause. */
+  async function waitForWindow(resource: string): Promise<void> {
+    const pending = pauses.get(resource);
+    if (pending) return pending;
+
+    const window = windows.get(resource);
+    if (!window || window.remaining > reserve) return;
+
+    const waitMs = window.resetAt + RESET_MARGIN_MS - Date.now();
+    if (waitMs <= 0) {
+      windows.delete(resource);
+      return;
+    }
+
+    options.onWait?.(resource, new Date(window.resetAt));
+    const pause = sleep(waitMs).then(() => {
+      windows.delete(resource);
+      pauses.delete(resource);
+    });
+    pauses.set(resource, pause);
+    return pause;
+  }
+
+  const scheduledFetch: typeof fetch = async (input, init) => {
+    const url = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
+    const resource = guessResource(url);
+    await waitForWindow(resource);
+
+    const window = windows.get(resource);
+    if (window) window.remaining--;
+
+    const response = await fetchFn(input, init);
+    const observed = readWindow(response.headers);
+    if (observed) {
+      windows.set(response.headers.get('x-ratelimit-resource') ?? resource, observed);
+    }
+    return response;
+  };
+
+  async function map<T, R>(
+    items: T[],
+    task: (item: T, index: number) => Promise<R>,
+  ): Promise<Array<PromiseSettledResult<R>>> {
+    const results = new Array<PromiseSettledResult<R>>(items.length);
+    let next = 0;
+
+    async function worker(): Promise<void> {
+      while (next < items.length) {
+        const index = next++;
+        try {
+          results[index] = { status: 'fulfilled', value: await task(items[index] as T, index) };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+  }
+
+  return { fetch: scheduledFetch, map };
+}
@@ -1,14 +1,31 @@
 /**
- * @fileoverview Static HTTP server for the pre-built web frontend.
+ * @fileoverview HTTP server for the pre-built web frontend, self-hosted README badges, share
+ * cards and pages, the JSON API in api.ts and the GitHub proxy in gh-proxy.ts.
  * Zero dependencies — uses node:http and node:fs.
  */
 
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import { createServer } from 'node:http';
+import { Buffer } from 'node:buffer';
 import { readFileSync, existsSync } from 'node:fs';
 import { join, extname } from 'node:path';
 import { dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import type { Certificate } from './core/types.ts';
+import type { ApiOptions } from './api.ts';
+import { handleApiRequest } from './api.ts';
+import type { GitHubProxyOptions } from './gh-proxy.ts';
+import { GITHUB_PROXY_PATH, handleGitHubProxy, isGitHubProxyPath } from './gh-proxy.ts';
+import type { BadgeStyle } from './core/badge.ts';
+import { isBadgeStyle, renderBadgeSvg, renderErrorBadgeSvg } from './core/badge.ts';
+import { renderShareCardSvg } from './core/card.ts';
+import { renderShareCardPng } from './card-png.ts';
+import { lookupCertificate } from './core/lookup.ts';
+import { isNotFoundError, isTransientError } from './core/retry.ts';
+import { nodeHash } from './hash.ts';
+import { renderSharePage } from './share-page.ts';
+
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html; charset=utf-8',
   '.css': 'text/css; charset=utf-8',
@@ -19,30 +36,266 @@ const MIME_TYPES: Record<string, string> = {
   '.ico': 'image/x-icon',
 };
 
-export function serve(port: number = 3000): void {
+/** `provider` is the forge that `/badge/<user>.svg` and the API look users up on. */
+export interface ServeOptions extends ApiOptions {
+  /** Interface to listen on. Defaults to 127.0.0.1. */
+  host?: string;
+  /** Enables `/gh/*` for the web UI. Only set when serving a GitHub instance. */
+  githubProxy?: GitHubProxyOptions;
+}
+
+/** Tells the web UI to send requests for `apiUrl` through the proxy; see web/src/app.ts. */
+function injectProxyMeta(html: string, apiUrl: string): string {
+  const meta = `<meta name="lastgen-proxy" content="${GITHUB_PROXY_PATH}" data-api-url="${apiUrl.replace(/"/g, '&quot;')}" />`;
+  return html.replace('</head>', `  ${meta}\n  </head>`);
+}
+
+/** Badges and cards are cached for an hour by browsers and image proxies such as camo. */
+const IMAGE_MAX_AGE = 3600;
+
+const BADGE_PATH = /^\/badge\/([^/]+)\.svg$/;
+const CARD_PATH = /^\/card\/([^/]+)\.(svg|png)$/;
+const SHARE_PAGE_PATH = /^\/u\/([^/]+)$/;
+
+/**
+ * Lookups behind badges, cards and share pages. A link preview fetches the page and then
+ * its card, so results are kept for a few minutes instead of looking the user up twice.
+ */
+const LOOKUP_TTL_MS = 5 * 60 * 1000;
+/** Past this many users, the oldest lookup is dropped, however many names clients try. */
+const MAX_LOOKUPS = 500;
+const lookups = new Map<string, { certificate: Promise<Certificate>; timestamp: number }>();
+
+function lookupShared(options: ApiOptions, username: string): Promise<Certificate> {
+  const now = Date.now();
+  for (const [key, entry] of lookups) {
+    if (now - entry.timestamp > LOOKUP_TTL_MS) lookups.delete(key);
+  }
+
+  const key = username.toLowerCase();
+  const cached = lookups.get(key);
+  if (cached) return cached.certificate;
+
+  const certificate = lookupCertificate(nodeHash, options.provider, username, {
+    policy: options.policy,
+  });
+  // Maps keep insertion order, so the first key is the oldest lookup.
+  if (lookups.size >= MAX_LOOKUPS) {
+    const oldest = lookups.keys().next().value;
+    if (oldest !== undefined) lookups.delete(oldest);
+  }
+  lookups.set(key, { certificate, timestamp: now });
+  // Failures aren't cached, so a rate-limited lookup is retried on the next request.
+  certificate.catch(() => {
+    if (lookups.get(key)?.certificate === certificate) lookups.delete(key);
+  });
+  return certificate;
+}
+
+function writeImage(
+  res: ServerResponse,
+  status: number,
+  type: '.svg' | '.png',
+  image: string | Buffer,
+): void {
+  res.writeHead(status, {
+    'Content-Type': MIME_TYPES[type],
+    'Cache-Control': status === 200 ? `public, max-age=${IMAGE_MAX_AGE}` : 'no-cache',
+  });
+  res.end(image);
+}
+
+function writeSvg(res: ServerResponse, status: number, svg: string): void {
+  writeImage(res, status, '.svg', svg);
+}
+
+function writeText(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text + '\n');
+}
+
+/** Origin the client used, so share pages link to absolute image URLs behind a proxy too. */
+function requestOrigin(req: IncomingMessage, port: number): string {
+  const forwarded = req.headers['x-forwarded-proto'];
+  const proto = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0] ?? 'http';
+  return `${proto.trim()}://${req.headers.host ?? `localhost:${port}`}`;
+}
+
+/** Decodes the username captured from a route, or null if it is not valid URL encoding. */
+function routeUsername(match: RegExpExecArray): string | null {
+  try {
+    return decodeURIComponent(match[1] ?? '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Status and message for a failed lookup: 503 for a forge outage, 404 for a missing user,
+ * and 502 for any other forge error, such as a rejected token.
+ */
+function lookupFailure(err: unknown, username: string): { status: number; message: string } {
+  const message = err instanceof Error ? err.message : String(err);
+  process.stderr.write(`  Lookup of ${username} failed: ${message}\n`);
+  const status = isTransientError(err) ? 503 : isNotFoundError(err) ? 404 : 502;
+  return { status, message };
+}
+
+/**
+ * Serves `/badge/<user>.svg`. Query parameters: `style` (flat, for-the-badge), and
+ * `year` and `number` to append the proof year and certificate number.
+ */
+async function serveBadge(
+  res: ServerResponse,
+  username: string,
+  query: URL['searchParams'],
+  options: ApiOptions,
+): Promise<void> {
+  const styleParam = query.get('style') ?? 'for-the-badge';
+  if (!isBadgeStyle(styleParam)) {
+    writeSvg(res, 400, renderErrorBadgeSvg('unknown style'));
+    return;
+  }
+  const style: BadgeStyle = styleParam;
+
+  try {
+    const cert = await lookupShared(options, username);
+    const svg = renderBadgeSvg(cert, {
+      style,
+      year: query.has('year'),
+      number: query.has('number'),
+      policy: options.policy,
+    });
+    writeSvg(res, 200, svg);
+  } catch (err) {
+    const { status } = lookupFailure(err, username);
+    writeSvg(res, status, renderErrorBadgeSvg(status === 404 ? 'not found' : 'unavailable', style));
+  }
+}
+
+/** Serves `/card/<user>.svg` and `/card/<user>.png`; share pages point at the PNG. */
+async function serveCard(
+  res: ServerResponse,
+  username: string,
+  type: '.svg' | '.png',
+  options: ApiOptions,
+): Promise<void> {
+  try {
+    const cert = await lookupShared(options, username);
+    const image =
+      type === '.png'
+        ? renderShareCardPng(cert, options.policy)
+        : renderShareCardSvg(cert, options.policy);
+    writeImage(res, 200, type, image);
+  } catch (err) {
+    const { status, message } = lookupFailure(err, username);
+    writeText(res, status, message);
+  }
+}
+
+/** Serves `/u/<user>`: OpenGraph and Twitter tags for link previews, then the web UI. */
+async function serveSharePage(
+  res: ServerResponse,
+  username: string,
+  origin: string,
+  options: ApiOptions,
+): Promise<void> {
+  try {
+    const cert = await lookupShared(options, username);
+    const page = renderSharePage(cert, origin, options.policy);
+    // The origin comes from request headers, so shared caches must not keep the page.
+    res.writeHead(200, {
+      'Content-Type': MIME_TYPES['.html'],
+      'Cache-Control': `private, max-age=${IMAGE_MAX_AGE}`,
+    });
+    res.end(page);
+  } catch (err) {
+    const { status, message } = lookupFailure(err, username);
+    writeText(res, status, message);
+  }
+}
+
+export function serve(port: number, options: ServeOptions): void {
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = dirname(__filename);
   const distDir = join(__dirname, '..', 'web', 'dist');
 
+  // Badges and the API work without the web UI, so missing assets only disable the UI.
   if (!existsSync(distDir)) {
     process.stderr.write(
-      `  Web assets not found at ${distDir}\n` +
-        '  Run "cd web && npm install && npm run build" first.\n',
+      `  Web assets not found at ${distDir}, serving badges and the API only.\n` +
+        '  Run "cd web && npm install && npm run build" for the web UI.\n',
     );
-    process.exitCode = 1;
-    return;
   }
 
-  const server = createServer((req, res) => {
-    let urlPath = req.url ?? '/';
+  /** The SPA shell, announcing the GitHub proxy when it is enabled. */
+  const readIndex = (): string => {
+    const html = readFileSync(join(distDir, 'index.html'), 'utf-8');
+    return options.githubProxy ? injectProxyMeta(html, options.githubProxy.apiUrl) : html;
+  };
 
-    const qIndex = urlPath.indexOf('?');
-    if (qIndex !== -1) urlPath = urlPath.slice(0, qIndex);
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let urlPath = url.pathname;
 
     if (urlPath.startsWith('/lastgen/')) {
       urlPath = urlPath.slice('/lastgen'.length);
     }
 
+    if (urlPath.startsWith('/api/')) {
+      handleApiRequest(req, res, urlPath, options).catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        process.stderr.write(`  ${req.method} ${urlPath} failed: ${message}\n`);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+        }
+        res.end(JSON.stringify({ error: 'Internal server error' }) + '\n');
+      });
+      return;
+    }
+
+    if (isGitHubProxyPath(urlPath)) {
+      if (!options.githubProxy) {
+        res.writeHead(404);
+        res.end('Not found');
+        return;
+      }
+      handleGitHubProxy(req.method, res, urlPath, url.search, options.githubProxy).catch(
+        (err: unknown) => {
+          const message = err instanceof Error ? err.message : String(err);
+          process.stderr.write(`  GitHub proxy ${urlPath} failed: ${message}\n`);
+          if (!res.headersSent) res.writeHead(502);
+          res.end();
+        },
+      );
+      return;
+    }
+
+    const badgeMatch = BADGE_PATH.exec(urlPath);
+    if (badgeMatch) {
+      const username = routeUsername(badgeMatch);
+      if (username === null) {
+        writeSvg(res, 400, renderErrorBadgeSvg('bad username'));
+        return;
+      }
+      void serveBadge(res, username, url.searchParams, options);
+      return;
+    }
+
+    const cardMatch = CARD_PATH.exec(urlPath);
+    const pageMatch = SHARE_PAGE_PATH.exec(urlPath);
+    if (cardMatch || pageMatch) {
+      const username = routeUsername((cardMatch ?? pageMatch) as RegExpExecArray);
+      if (username === null) {
+        writeText(res, 400, 'Username is not valid URL encoding');
+      } else if (cardMatch) {
+        void serveCard(res, username, cardMatch[2] === 'png' ? '.png' : '.svg', options);
+      } else {
+        void serveSharePage(res, username, requestOrigin(req, port), options);
+      }
+      return;
+    }
+
     if (urlPath === '/' || urlPath === '') urlPath = '/index.html';
 
     const filePath = join(distDir, urlPath);
@@ -54,14 +307,14 @@ export function serve(port: number = 3000): void {
     }
 
     try {
-      const content = readFileSync(filePath);
+      const content = urlPath === '/index.html' ? readIndex() : readFileSync(filePath);
       const ext = extname(filePath);
       const contentType = MIME_TYPES[ext] ?? 'application/octet-stream';
       res.writeHead(200, { 'Content-Type': contentType });
       res.end(content);
     } catch {
       try {
-        const indexContent = readFileSync(join(distDir, 'index.html'));
+        const indexContent = readIndex();
         res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
         res.end(indexContent);
       } catch {
@@ -71,7 +324,10 @@ export function serve(port: number = 3000): void {
     }
   });
 
-  server.listen(port, '127.0.0.1', () => {
-    process.stderr.write(`\n  lastgen web UI running at http://localhost:${port}/\n\n`);
+  const host = options.host ?? '127.0.0.1';
+  const displayHost = host === '127.0.0.1' ? 'localhost' : host;
+  server.listen(port, host, () => {
+    process.stderr.write(`\n  lastgen web UI running at http://${displayHost}:${port}/\n`);
+    process.stderr.write(`  JSON API at http://${displayHost}:${port}/api/\n\n`);
   });
 }
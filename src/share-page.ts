@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Per-user share pages for `lastgen serve`. Link previews in Slack, X and
+ * other apps read the OpenGraph and Twitter tags, which point at the user's share card;
+ * people following the link are sent on to the web UI.
+ */
+
+import type { Certificate, EraPolicy } from './core/types.ts';
+import { CARD_HEIGHT, CARD_WIDTH } from './core/card.ts';
+import { describeEra } from './core/policy.ts';
+
+function html(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Paths of the page and card for a user, relative to the server's origin. */
+export function sharePaths(username: string): { page: string; card: string; app: string } {
+  const user = encodeURIComponent(username);
+  return { page: `/u/${user}`, card: `/card/${user}.png`, app: `/?u=${user}` };
+}
+
+/**
+ * `origin` is the externally visible server origin, e.g. `https://lastgen.example.com`.
+ * `policy` is a custom era policy the certificate may name.
+ */
+export function renderSharePage(cert: Certificate, origin: string, policy?: EraPolicy): string {
+  const username = cert.identity.username;
+  const paths = sharePaths(username);
+  const title = `${username} is a ${describeEra(cert, policy).era.title}`;
+  const proofDate = new Date(cert.proof.proofDate).toISOString().slice(0, 10);
+  const description = `Proof date ${proofDate} · Certificate ${cert.certificateNumber}`;
+  const image = `${origin}${paths.card}`;
+
+  const meta = (attribute: 'name' | 'property', key: string, content: string): string =>
+    `    <meta ${attribute}="${key}" content="${html(content)}" />`;
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '  <head>',
+    '    <meta charset="UTF-8" />',
+    `    <title>${html(title)} — lastgen</title>`,
+    meta('name', 'description', description),
+    meta('property', 'og:type', 'website'),
+    meta('property', 'og:site_name', 'lastgen'),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', description),
+    meta('property', 'og:url', `${origin}${paths.page}`),
+    meta('property', 'og:image', image),
+    meta('property', 'og:image:type', 'image/png'),
+    meta('property', 'og:image:width', String(CARD_WIDTH)),
+    meta('property', 'og:image:height', String(CARD_HEIGHT)),
+    meta('name', 'twitter:card', 'summary_large_image'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', description),
+    meta('name', 'twitter:image', image),
+    // The script keeps the fragment, which may carry the certificate itself.
+    `    <script>location.replace(${JSON.stringify(paths.app)} + location.hash);</script>`,
+    `    <noscript><meta http-equiv="refresh" content="0; url=${html(paths.app)}" /></noscript>`,
+    '  </head>',
+    '  <body>',
+    `    <p><a href="${html(paths.app)}">View the certificate of ${html(username)}</a></p>`,
+    '  </body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import type { Certificate, EvidenceSnapshot } from './core/types.ts';
+import { createCertificate, getKeyId, getSigningPayload } from './core/proof.ts';
+import { verifyCertificateData } from './core/verify.ts';
+import { nodeHash } from './hash.ts';
+import { generateIssuerKeyPair, loadSigner, nodeVerifySignature } from './sign.ts';
+
+const dir = mkdtempSync(join(tmpdir(), 'lastgen-sign-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+async function signedCertificate(
+  snapshot?: EvidenceSnapshot,
+): Promise<{ cert: Certificate; publicKey: string }> {
+  const { privateKeyPem, publicKey } = generateIssuerKeyPair();
+  const keyPath = join(dir, `${publicKey.slice(0, 8)}.key`);
+  writeFileSync(keyPath, privateKeyPem);
+  const signer = await loadSigner(keyPath);
+  const cert = await createCertificate(
+    nodeHash,
+    { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' },
+    null,
+    { signer, snapshot },
+  );
+  return { cert, publicKey };
+}
+
+/** Hash, signature and era checks only: the offline run skips the forge. */
+async function verifyOffline(cert: Certificate, trustedKeys?: string[]) {
+  const result = await verifyCertificateData(cert, nodeHash, {
+    offline: true,
+    trustedKeys,
+    verifySignature: nodeVerifySignature,
+  });
+  return result.results.find((check) => check.check === 'Signature');
+}
+
+describe('Ed25519 signing', () => {
+  it('signs with the loaded key and records its id', async () => {
+    const { cert, publicKey } = await signedCertificate();
+    const signature = cert.verification.signature;
+
+    assert.ok(signature);
+    assert.equal(signature.algorithm, 'ed25519');
+    assert.equal(signature.publicKey, publicKey);
+    assert.equal(signature.keyId, await getKeyId(nodeHash, publicKey));
+    assert.equal(
+      await nodeVerifySignature(publicKey, getSigningPayload(cert), signature.value),
+      true,
+    );
+  });
+
+  it('rejects a certificate edited after signing', async () => {
+    const { cert } = await signedCertificate();
+    const edited = { ...cert, issuedAt: '2030-01-01T00:00:00Z' };
+
+    assert.equal((await verifyOffline(cert))?.passed, true);
+    assert.equal((await verifyOffline(edited))?.passed, false);
+  });
+
+  it('only trusts listed issuer keys', async () => {
+    const { cert, publicKey } = await signedCertificate();
+    const other = generateIssuerKeyPair().publicKey;
+
+    assert.equal((await verifyOffline(cert, [publicKey]))?.passed, true);
+    assert.equal((await verifyOffline(cert, [other]))?.passed, false);
+  });
+
+  it('vouches for an embedded snapshot only under a trusted key', async () => {
+    const { cert, publicKey } = await signedCertificate({
+      capturedAt: '2026-01-01T00:00:00Z',
+      account: { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' },
+      repos: [],
+      commits: [],
+    });
+    const snapshotCheck = async (trustedKeys?: string[]) => {
+      const result = await verifyCertificateData(cert, nodeHash, {
+        offline: true,
+        trustedKeys,
+        verifySignature: nodeVerifySignature,
+      });
+      return result.results.find((check) => check.check === 'Snapshot authenticity');
+    };
+
+    assert.equal((await snapshotCheck([publicKey]))?.passed, true);
+    assert.equal((await snapshotCheck())?.passed, false);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Node.js Ed25519 issuer keys using node:crypto: key generation,
+ * loading a signer from a PEM file, and signature verification.
+ */
+
+import { Buffer } from 'node:buffer';
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+import type { CertificateSigner, SignatureVerifyFn } from './core/types.ts';
+import { getKeyId } from './core/proof.ts';
+import { nodeHash } from './hash.ts';
+
+function exportRawPublicKey(key: KeyObject): string {
+  const jwk = key.export({ format: 'jwk' });
+  if (jwk.crv !== 'Ed25519' || !jwk.x) {
+    throw new Error('Issuer key must be an Ed25519 key.');
+  }
+  return jwk.x;
+}
+
+export function generateIssuerKeyPair(): { privateKeyPem: string; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    privateKeyPem: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+    publicKey: exportRawPublicKey(publicKey),
+  };
+}
+
+export async function loadSigner(keyPath: string): Promise<CertificateSigner> {
+  let pem: string;
+  try {
+    pem = readFileSync(keyPath, 'utf-8');
+  } catch {
+    throw new Error(`Cannot read signing key: ${keyPath}`);
+  }
+
+  const privateKey = createPrivateKey(pem);
+  const publicKey = exportRawPublicKey(createPublicKey(privateKey));
+
+  return {
+    keyId: await getKeyId(nodeHash, publicKey),
+    publicKey,
+    sign: async (data: string) =>
+      sign(null, Buffer.from(data, 'utf-8'), privateKey).toString('base64url'),
+  };
+}
+
+export const nodeVerifySignature: SignatureVerifyFn = async (publicKey, data, signature) => {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: publicKey },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(data, 'utf-8'), key, Buffer.from(signature, 'base64url'));
+  } catch {
+    return false;
+  }
+};
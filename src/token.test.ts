@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { findToken, getGitHubHost } from './token.ts';
+
+const root = mkdtempSync(join(tmpdir(), 'lastgen-token-'));
+const ghDir = join(root, 'gh');
+const emptyGhDir = join(root, 'gh-empty');
+const gitConfig = join(root, 'gitconfig');
+const emptyGitConfig = join(root, 'gitconfig-empty');
+after(() => rmSync(root, { recursive: true, force: true }));
+
+mkdirSync(ghDir);
+mkdirSync(emptyGhDir);
+writeFileSync(
+  join(ghDir, 'hosts.yml'),
+  [
+    'github.com:',
+    '    users:',
+    '        alice:',
+    '            oauth_token: from-user-entry',
+    '    oauth_token: from-hosts',
+    '    user: alice',
+    'ghe.example.com:',
+    '    oauth_token: "from-ghe"',
+    '',
+  ].join('\n'),
+);
+writeFileSync(
+  gitConfig,
+  '[credential]\n\thelper = "!f() { test \\"$1\\" = get && { echo username=alice; echo password=from-git; }; }; f"\n',
+);
+writeFileSync(emptyGitConfig, '');
+
+// git credential fill reads the environment of this process.
+process.env.GIT_CONFIG_NOSYSTEM = '1';
+process.env.GIT_CONFIG_GLOBAL = gitConfig;
+
+const everything = {
+  GITHUB_TOKEN: 'from-github-token',
+  GH_TOKEN: 'from-gh-token',
+  GH_CONFIG_DIR: ghDir,
+};
+
+describe('findToken', () => {
+  it('tries --token, GITHUB_TOKEN, GH_TOKEN, hosts.yml, then git credentials', () => {
+    const sources = [
+      findToken({ forge: 'github', flag: 'from-flag', env: everything }),
+      findToken({ forge: 'github', env: everything }),
+      findToken({ forge: 'github', env: { ...everything, GITHUB_TOKEN: '' } }),
+      findToken({ forge: 'github', env: { GH_CONFIG_DIR: ghDir } }),
+      findToken({ forge: 'github', env: { GH_CONFIG_DIR: emptyGhDir } }),
+    ];
+
+    assert.deepEqual(
+      sources.map((found) => found?.token),
+      ['from-flag', 'from-github-token', 'from-gh-token', 'from-hosts', 'from-git'],
+    );
+    assert.equal(sources[3]?.source, `${join(ghDir, 'hosts.yml')} (github.com)`);
+    assert.equal(sources[4]?.source, 'git credential fill (github.com)');
+  });
+
+  it("reads the instance's own entry in hosts.yml", () => {
+    const found = findToken({ forge: 'github', host: 'ghe.example.com', env: everything });
+    assert.equal(found?.token, 'from-github-token');
+
+    const fromHosts = findToken({
+      forge: 'github',
+      host: 'ghe.example.com',
+      env: { GH_CONFIG_DIR: ghDir },
+    });
+    assert.equal(fromHosts?.token, 'from-ghe');
+  });
+
+  it('only uses the forge variable for GitLab and Gitea', () => {
+    assert.equal(findToken({ forge: 'gitlab', env: everything }), null);
+    assert.deepEqual(findToken({ forge: 'gitea', env: { GITEA_TOKEN: 'tea' } }), {
+      token: 'tea',
+      source: 'GITEA_TOKEN',
+    });
+  });
+
+  it('returns null when no source has a token', () => {
+    process.env.GIT_CONFIG_GLOBAL = emptyGitConfig;
+    try {
+      assert.equal(findToken({ forge: 'github', env: { GH_CONFIG_DIR: emptyGhDir } }), null);
+    } finally {
+      process.env.GIT_CONFIG_GLOBAL = gitConfig;
+    }
+  });
+});
+
+describe('getGitHubHost', () => {
+  it('maps API URLs and bare hosts to the web host', () => {
+    assert.equal(getGitHubHost(undefined), 'github.com');
+    assert.equal(getGitHubHost('https://api.github.com'), 'github.com');
+    assert.equal(getGitHubHost('https://ghe.example.com/api/v3'), 'ghe.example.com');
+    assert.equal(getGitHubHost('ghe.example.com'), 'ghe.example.com');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Token discovery for the CLI. Besides --token and the forge's environment
+ * variable, GitHub tokens are found where developers already have one: GH_TOKEN, the gh
+ * CLI's hosts file and git credential helpers. Each token comes with a printable source
+ * for --verbose; the token itself is never logged.
+ */
+
+import { spawnSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+import type { ForgeKind } from './core/types.ts';
+import { normalizeGitHubApiUrl } from './core/github.ts';
+
+const FORGE_TOKEN_ENV: Record<ForgeKind, string> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+};
+
+/** A credential helper that would prompt is cut off rather than left hanging. */
+const GIT_CREDENTIAL_TIMEOUT_MS = 5000;
+
+export interface FoundToken {
+  token: string;
+  /** Where the token came from, e.g. `GH_TOKEN`. Safe to print. */
+  source: string;
+}
+
+export interface TokenLookup {
+  forge: ForgeKind;
+  /** Value of --token. */
+  flag?: string;
+  /** Web host of a GitHub instance, for gh and git credentials. Defaults to github.com. */
+  host?: string;
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Web host of a GitHub instance from its API URL, or a bare host as --api-url takes it:
+ * api.github.com belongs to github.com.
+ */
+export function getGitHubHost(apiUrl: string | undefined): string {
+  if (!apiUrl) return 'github.com';
+  const host = new URL(normalizeGitHubApiUrl(apiUrl)).host;
+  return host === 'api.github.com' ? 'github.com' : host;
+}
+
+/**
+ * Tries, in order: --token, the forge's variable (GITHUB_TOKEN), and for GitHub also
+ * GH_TOKEN, gh's hosts.yml entry for the host and `git credential fill`. Null when none
+ * has a token, so requests go out anonymously.
+ */
+export function findToken(lookup: TokenLookup): FoundToken | null {
+  const env = lookup.env ?? process.env;
+  const host = lookup.host ?? 'github.com';
+  if (lookup.flag) {
+    return { token: lookup.flag, source: '--token' };
+  }
+
+  const names =
+    lookup.forge === 'github' ? ['GITHUB_TOKEN', 'GH_TOKEN'] : [FORGE_TOKEN_ENV[lookup.forge]];
+  for (const name of names) {
+    const value = env[name];
+    if (value) return { token: value, source: name };
+  }
+  if (lookup.forge !== 'github') return null;
+
+  const hostsFile = getGhHostsPath(env);
+  const ghToken = readGhHostsToken(hostsFile, host);
+  if (ghToken) {
+    return { token: ghToken, source: `${hostsFile} (${host})` };
+  }
+
+  const gitToken = readGitCredential(host);
+  if (gitToken) {
+    return { token: gitToken, source: `git credential fill (${host})` };
+  }
+  return null;
+}
+
+/** gh's config directory: GH_CONFIG_DIR, else `$XDG_CONFIG_HOME/gh`, else `~/.config/gh`. */
+function getGhHostsPath(env: Record<string, string | undefined>): string {
+  const dir = env.GH_CONFIG_DIR || join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'gh');
+  return join(dir, 'hosts.yml');
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * The `oauth_token` of `host` in gh's hosts.yml: the host's own entry, or its first user's.
+ * Recent gh versions keep the token in the system keyring, leaving none in the file.
+ * Reads just the two levels gh writes instead of parsing YAML in general.
+ */
+function readGhHostsToken(path: string, host: string): string | null {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let inHost = false;
+  let found: { indent: number; token: string } | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    if (indent === 0) {
+      inHost = unquote(trimmed.replace(/:$/, '')) === host;
+      continue;
+    }
+    const match = /^oauth_token:\s*(.+)$/.exec(trimmed);
+    if (inHost && match?.[1] && (!found || indent < found.indent)) {
+      found = { indent, token: unquote(match[1]) };
+    }
+  }
+  return found?.token || null;
+}
+
+/** Asks git's credential helpers for the host's password without letting git prompt. */
+function readGitCredential(host: string): string | null {
+  const result = spawnSync('git', ['credential', 'fill'], {
+    input: `protocol=https\nhost=${host}\n\n`,
+    encoding: 'utf-8',
+    timeout: GIT_CREDENTIAL_TIMEOUT_MS,
+    stdio: ['pipe', 'pipe', 'ignore'],
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GCM_INTERACTIVE: 'never' },
+  });
+  if (result.status !== 0 || !result.stdout) return null;
+
+  const line = result.stdout.split('\n').find((entry) => entry.startsWith('password='));
+  return line?.slice('password='.length).trim() || null;
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import type { CliVerifyOptions, VerifyOutcome } from './verify-cli.ts';
+import { createCertificate } from './core/proof.ts';
+import { nodeHash } from './hash.ts';
+import { verifyCertificate } from './verify-cli.ts';
+
+const dir = mkdtempSync(join(tmpdir(), 'lastgen-verify-cli-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const user = { login: 'alice', id: 42, name: null, createdAt: '2010-03-01T00:00:00Z' };
+
+async function writeCertificate(name: string, edit: (cert: Record<string, unknown>) => void) {
+  const cert = (await createCertificate(nodeHash, user, null)) as unknown as Record<
+    string,
+    unknown
+  >;
+  edit(cert);
+  const path = join(dir, name);
+  writeFileSync(path, JSON.stringify(cert));
+  return path;
+}
+
+/** Runs verify with stdout captured, and parses the JSON report it printed. */
+async function verifyJson(
+  path: string,
+  options: CliVerifyOptions = {},
+): Promise<{ outcome: VerifyOutcome; report: Record<string, unknown> }> {
+  const chunks: string[] = [];
+  const write = process.stdout.write;
+  process.stdout.write = ((chunk: string) => {
+    chunks.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    const outcome = await verifyCertificate(path, nodeHash, { ...options, format: 'json' });
+    return { outcome, report: JSON.parse(chunks.join('')) as Record<string, unknown> };
+  } finally {
+    process.stdout.write = write;
+  }
+}
+
+describe('verify --format json on unusable forge settings', () => {
+  it('reports a Gitea certificate without an instance URL as bad input', async () => {
+    const path = await writeCertificate('gitea.json', (cert) => {
+      (cert.identity as Record<string, unknown>).forge = 'gitea';
+    });
+
+    for (const offline of [false, true]) {
+      const { outcome, report } = await verifyJson(path, { offline });
+      assert.equal(outcome, 'bad_input');
+      assert.equal(report.status, 'bad_input');
+      assert.deepEqual(report.details, ['$.identity.apiUrl: is required for Gitea certificates']);
+    }
+  });
+
+  it('reports a provider that cannot be built as bad input', async () => {
+    const path = await writeCertificate('gitlab.json', (cert) => {
+      (cert.identity as Record<string, unknown>).forge = 'gitlab';
+    });
+
+    const { outcome, report } = await verifyJson(path, {
+      resolveApiUrl: () => 'https://gitlab.example.com',
+    });
+    assert.equal(outcome, 'bad_input');
+    assert.match(String(report.error), /Custom API URLs are not supported for GitLab/);
+  });
+});
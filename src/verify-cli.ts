@@ -4,46 +4,188 @@
 
 import { readFileSync } from 'node:fs';
 
-import type { HashFn } from './core/types.ts';
-import { isValidCertificate, verifyCertificateData } from './core/verify.ts';
-import { BOX_WIDTH, boxLine, boxRule, error, info, style } from './display.ts';
+import type { ForgeKind, HashFn, TrustScore, VerifyResult, VerifyStatus } from './core/types.ts';
+import type { RetryPolicy } from './core/retry.ts';
+import type { VerifyOptions } from './core/verify.ts';
+import { getSeverity, isValidCertificate, verifyCertificateData } from './core/verify.ts';
+import type { ForgeProvider } from './core/forge.ts';
+import { createForgeProvider } from './core/forge.ts';
+import { formatSchemaErrors, validateCertificate } from './core/schema.ts';
+import { decodeCertificateLink, isCertificateLink } from './core/share-link.ts';
+import { nodeLinkCodec } from './link-codec.ts';
+import type { VerifyFormat, VerifyReport } from './verify-format.ts';
+import { formatVerifyReport } from './verify-format.ts';
+import {
+  BOX_WIDTH,
+  TRUST_COLORS,
+  boxLine,
+  boxRule,
+  error,
+  formatTrustScore,
+  info,
+  style,
+} from './display.ts';
 
+export interface CliVerifyOptions extends VerifyOptions {
+  /** Picks the token for the forge named in the certificate, once it has been read. */
+  resolveToken?: (forge: ForgeKind) => string | undefined;
+  /** Picks the configured instance for the certificate's forge, if any. */
+  resolveApiUrl?: (forge: ForgeKind) => string | undefined;
+  retry?: RetryPolicy;
+  /** Fetch for forge requests, e.g. one backed by the on-disk cache. */
+  fetch?: typeof fetch;
+  /** Report format. Defaults to the boxed text report. */
+  format?: VerifyFormat;
+}
+
+export type VerifyOutcome = VerifyReport['status'];
+
+/** Process exit code for each outcome, so CI can tell a bad certificate from an outage. */
+export const VERIFY_EXIT_CODES: Record<VerifyOutcome, number> = {
+  valid: 0,
+  invalid: 1,
+  bad_input: 2,
+  unverifiable: 3,
+};
+
+/** `filePath` is a certificate file, or a share link with the certificate in its fragment. */
 export async function verifyCertificate(
   filePath: string,
   hashFn: HashFn,
-  token?: string,
-): Promise<boolean> {
-  let raw: string;
-  try {
-    raw = readFileSync(filePath, 'utf-8');
-  } catch {
-    error(`Cannot read file: ${filePath}`);
-    return false;
-  }
+  options: CliVerifyOptions = {},
+): Promise<VerifyOutcome> {
+  const format = options.format ?? 'text';
+  const log = format === 'text' ? info : () => {};
+
+  const badInput = (message: string, details: string[] = []): VerifyOutcome => {
+    if (format === 'text') {
+      error(message);
+      for (const detail of details) {
+        error(`  ${detail}`);
+      }
+    } else {
+      const report: VerifyReport = {
+        file: filePath,
+        status: 'bad_input',
+        results: [],
+        error: message,
+        details,
+      };
+      process.stdout.write(formatVerifyReport(report, format));
+    }
+    return 'bad_input';
+  };
 
   let cert: unknown;
-  try {
-    cert = JSON.parse(raw);
-  } catch {
-    error('Invalid JSON in certificate file.');
-    return false;
+  if (isCertificateLink(filePath)) {
+    try {
+      cert = await decodeCertificateLink(filePath, nodeLinkCodec);
+    } catch (err) {
+      return badInput(err instanceof Error ? err.message : String(err));
+    }
+  } else {
+    let raw: string;
+    try {
+      raw = readFileSync(filePath, 'utf-8');
+    } catch {
+      return badInput(`Cannot read file: ${filePath}`);
+    }
+    try {
+      cert = JSON.parse(raw);
+    } catch {
+      return badInput('Invalid JSON in certificate file.');
+    }
   }
 
   if (!isValidCertificate(cert)) {
-    error('File is not a valid lastgen certificate.');
-    return false;
+    return badInput(
+      'File is not a valid lastgen certificate:',
+      formatSchemaErrors(validateCertificate(cert)),
+    );
+  }
+
+  const forge = cert.identity.forge ?? 'github';
+  const isLocal = cert.proof.source?.kind === 'local-git';
+  // A configured instance is checked as-is, so a mismatching certificate gets refused.
+  // Otherwise the certificate's own instance is queried, but never with a token: the
+  // certificate could name any host.
+  const configuredApiUrl = options.resolveApiUrl?.(forge);
+  const sendToken = Boolean(configuredApiUrl) || !cert.identity.apiUrl;
+  let provider: ForgeProvider | undefined;
+  try {
+    provider =
+      isLocal || options.offline
+        ? undefined
+        : (options.provider ??
+          createForgeProvider(forge, {
+            token: sendToken ? (options.token ?? options.resolveToken?.(forge)) : undefined,
+            apiUrl: configuredApiUrl ?? cert.identity.apiUrl,
+            retry: options.retry,
+            fetch: options.fetch,
+          }));
+  } catch (err) {
+    return badInput(err instanceof Error ? err.message : String(err));
   }
+  const forgeName = provider?.name ?? '';
+
+  log(`Verifying certificate ${cert.certificateNumber}...`);
+  log(`Developer: ${cert.identity.username}`);
 
-  info(`Verifying certificate ${cert.certificateNumber}...`);
-  info(`Developer: ${cert.identity.username}`);
-  info('');
+  if (cert.identity.apiUrl) {
+    log(`Instance: ${cert.identity.apiUrl}`);
+  }
+  log('');
 
-  if (cert.proof.firstCommit.sha) {
-    info(`Fetching commit ${cert.proof.firstCommit.sha.slice(0, 7)} from GitHub...`);
+  if (isLocal) {
+    log(`Reading commit ${cert.proof.firstCommit.sha.slice(0, 7)} from local repository...`);
+  } else if (options.offline) {
+    log(
+      cert.proof.snapshot
+        ? `Offline: checking against the snapshot captured ${cert.proof.snapshot.capturedAt}...`
+        : 'Offline: no embedded snapshot, so only local checks run...',
+    );
+  } else {
+    log(`Fetching account ${cert.identity.githubId} from ${forgeName}...`);
+  }
+  if (cert.proof.firstCommit.sha && !isLocal && !options.offline) {
+    log(`Fetching repo ${cert.proof.firstCommit.repo} from ${forgeName}...`);
+    log(`Fetching commit ${cert.proof.firstCommit.sha.slice(0, 7)} from ${forgeName}...`);
   }
 
-  const { valid, results } = await verifyCertificateData(cert, hashFn, token);
+  const { status, results, trust } = await verifyCertificateData(cert, hashFn, {
+    ...options,
+    provider,
+  });
 
+  if (format !== 'text') {
+    const report: VerifyReport = {
+      file: filePath,
+      status,
+      certificateNumber: cert.certificateNumber,
+      username: cert.identity.username,
+      results,
+      trust,
+    };
+    process.stdout.write(formatVerifyReport(report, format));
+  } else {
+    displayVerifyResults(results, status, trust);
+  }
+  return status;
+}
+
+/** PASS/FAIL for error checks; INFO for trust signals; SKIP and WARN for the rest. */
+function resultIcon(result: VerifyResult): string {
+  if (result.skipped) return style('yellow', 'SKIP');
+  if (getSeverity(result) === 'info') return style('cyan', 'INFO');
+  if (result.passed) return style('green', 'PASS');
+  return getSeverity(result) === 'warning' ? style('yellow', 'WARN') : style('red', 'FAIL');
+}
+
+function displayVerifyResults(
+  results: VerifyResult[],
+  status: VerifyStatus,
+  trust?: TrustScore,
+): void {
   const out = process.stdout;
   const lines: string[] = [];
 
@@ -57,9 +199,16 @@ export async function verifyCertificate(
 
   lines.push(boxRule());
 
+  let currentGroup: string | undefined;
   for (const result of results) {
-    const icon = result.passed ? style('green', 'PASS') : style('red', 'FAIL');
-    const checkLine = `${icon}  ${style('bold', result.check)}`;
+    if (result.group !== currentGroup) {
+      currentGroup = result.group;
+      if (currentGroup) {
+        const header = currentGroup.slice(0, BOX_WIDTH);
+        lines.push(boxLine(style('cyan', header), header.length));
+      }
+    }
+    const checkLine = `${resultIcon(result)}  ${style('bold', result.check)}`;
     lines.push(boxLine(checkLine, 4 + 2 + result.check.length));
     const indent = 6;
     const maxLen = BOX_WIDTH - indent;
@@ -74,7 +223,21 @@ export async function verifyCertificate(
 
   lines.push(boxRule());
 
-  if (valid) {
+  const skipped = results.filter((result) => result.skipped).length;
+  const warnings = results.filter(
+    (result) => !result.passed && getSeverity(result) === 'warning',
+  ).length;
+  if (status === 'unverifiable') {
+    const text = 'Could not verify: the forge was unreachable.';
+    lines.push(boxLine(style('yellow', text), text.length));
+  } else if (status === 'valid' && (skipped > 0 || warnings > 0)) {
+    const notes = [
+      warnings > 0 ? `${warnings} warning${warnings === 1 ? '' : 's'}` : '',
+      skipped > 0 ? `${skipped} check${skipped === 1 ? '' : 's'} skipped` : '',
+    ].filter((note) => note.length > 0);
+    const text = `Certificate is valid; ${notes.join(', ')}.`;
+    lines.push(boxLine(style('yellow', text), text.length));
+  } else if (status === 'valid') {
     const msg = style('green', 'Certificate is valid.');
     lines.push(boxLine(msg, 21));
   } else {
@@ -82,8 +245,19 @@ export async function verifyCertificate(
     lines.push(boxLine(msg, 32));
   }
 
+  if (trust) {
+    lines.push(boxRule());
+    const score = formatTrustScore(trust);
+    lines.push(
+      boxLine(`Trust score: ${style(TRUST_COLORS[trust.level], score)}`, 13 + score.length),
+    );
+    for (const signal of trust.signals) {
+      const text = `  ${`${signal.points}/${signal.weight}`.padStart(5)}  ${signal.signal}`;
+      lines.push(boxLine(style('dim', text), text.length));
+    }
+  }
+
   lines.push(boxRule());
 
   out.write('\n' + lines.join('\n') + '\n\n');
-  return valid;
 }
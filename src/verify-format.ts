@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Machine-readable verification reports for CI jobs and other tooling:
+ * JSON, TAP version 13 and JUnit XML. The boxed text report lives in verify-cli.ts.
+ */
+
+import type { TrustScore, VerifyResult, VerifyStatus } from './core/types.ts';
+
+export type VerifyFormat = 'text' | 'json' | 'tap' | 'junit';
+
+export const VERIFY_FORMATS: readonly VerifyFormat[] = ['text', 'json', 'tap', 'junit'];
+
+export interface VerifyReport {
+  file: string;
+  /** `bad_input` when the file could not be read or is not a valid certificate. */
+  status: VerifyStatus | 'bad_input';
+  certificateNumber?: string;
+  username?: string;
+  results: VerifyResult[];
+  /** Weighted trust signals of the proof commits, when they could be fetched. */
+  trust?: TrustScore;
+  /** Why the file could not be checked, for bad input. */
+  error?: string;
+  /** Individual problems behind the error, e.g. schema errors by JSON path. */
+  details?: string[];
+}
+
+export function isVerifyFormat(value: string): value is VerifyFormat {
+  return (VERIFY_FORMATS as readonly string[]).includes(value);
+}
+
+export function formatVerifyReport(report: VerifyReport, format: VerifyFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    case 'tap':
+      return formatTap(report);
+    case 'junit':
+      return formatJunit(report);
+    case 'text':
+      throw new Error('The text report is rendered by verify-cli');
+  }
+}
+
+function checkName(result: VerifyResult): string {
+  return result.group ? `${result.group}: ${result.check}` : result.check;
+}
+
+/** Keeps a TAP description on one line and clear of the `#` directive marker. */
+function tapText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/#/g, '\\#');
+}
+
+function formatTap(report: VerifyReport): string {
+  const lines = ['TAP version 13'];
+  if (report.status === 'bad_input') {
+    lines.push(`Bail out! ${tapText(report.error ?? 'Bad input')}`);
+    for (const detail of report.details ?? []) {
+      lines.push(`# ${detail}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  lines.push(`1..${report.results.length}`);
+  for (const [index, result] of report.results.entries()) {
+    const name = tapText(checkName(result));
+    if (result.skipped) {
+      lines.push(`ok ${index + 1} - ${name} # SKIP ${tapText(result.detail)}`);
+    } else if (result.passed) {
+      lines.push(`ok ${index + 1} - ${name}`);
+    } else {
+      lines.push(`not ok ${index + 1} - ${name}`);
+      lines.push('  ---');
+      lines.push(`  message: ${JSON.stringify(result.detail)}`);
+      lines.push(
+        `  severity: ${result.unavailable ? 'unavailable' : (result.severity ?? 'error')}`,
+      );
+      lines.push('  ...');
+    }
+  }
+  if (report.trust) {
+    lines.push(`# Trust score: ${report.trust.score}/100 (${report.trust.level})`);
+  }
+  lines.push(`# ${report.certificateNumber ?? report.file}: ${report.status}`);
+  return lines.join('\n') + '\n';
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * One testsuite per certificate, one testcase per check. A check that failed because the
+ * forge was unreachable is an `<error>` rather than a `<failure>`, as JUnit readers expect.
+ */
+function formatJunit(report: VerifyReport): string {
+  const suiteName = xml(report.certificateNumber ?? report.file);
+  const cases: string[] = [];
+  let failures = 0;
+  let errors = 0;
+  let skipped = 0;
+
+  if (report.status === 'bad_input') {
+    errors++;
+    const message = xml(report.error ?? 'Bad input');
+    const body = xml((report.details ?? []).join('\n'));
+    cases.push(
+      `    <testcase classname="lastgen.verify" name="Certificate file">\n` +
+        `      <error message="${message}">${body}</error>\n` +
+        `    </testcase>`,
+    );
+  }
+
+  for (const result of report.results) {
+    const open = `    <testcase classname="lastgen.verify" name="${xml(checkName(result))}"`;
+    if (result.skipped) {
+      skipped++;
+      cases.push(`${open}>\n      <skipped message="${xml(result.detail)}"/>\n    </testcase>`);
+    } else if (result.passed) {
+      cases.push(`${open}/>`);
+    } else {
+      const tag = result.unavailable ? 'error' : 'failure';
+      if (result.unavailable) errors++;
+      else failures++;
+      cases.push(`${open}>\n      <${tag} message="${xml(result.detail)}"/>\n    </testcase>`);
+    }
+  }
+
+  const counts = `tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lastgen verify" ${counts}>`,
+    `  <testsuite name="${suiteName}" ${counts}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -1,10 +1,13 @@
 /**
- * @fileoverview Orchestrates the lookup flow with in-memory cache.
+ * @fileoverview Orchestrates the lookup flow with in-memory cache. Under `lastgen serve`,
+ * GitHub requests go through the server's `/gh` proxy; the static build calls GitHub directly.
  */
 
 import type { Certificate } from '../../src/core/types.ts';
-import { fetchUser, fetchFirstCommit } from '../../src/core/github.ts';
-import { createCertificate } from '../../src/core/proof.ts';
+import type { ForgeProvider } from '../../src/core/forge.ts';
+import { createForgeProvider, getIssuingApiUrl } from '../../src/core/forge.ts';
+import { lookupCertificate } from '../../src/core/lookup.ts';
+import { DEFAULT_RETRY_POLICY } from '../../src/core/retry.ts';
 import { webHash } from './hash.ts';
 
 interface CacheEntry {
@@ -14,9 +17,90 @@ interface CacheEntry {
 
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const cache = new Map<string, CacheEntry>();
+const providers = new Map<string, ForgeProvider>();
+/** Status callback of the lookup in progress, so retry pauses show up in the UI. */
+let reportStatus: (message: string) => void = () => {};
 
-function getCached(username: string): Certificate | null {
-  const key = username.toLowerCase();
+interface GitHubProxy {
+  /** Proxy path on this origin, e.g. `/gh`. */
+  path: string;
+  /** Upstream API whose requests the proxy forwards. */
+  apiUrl: string;
+}
+
+/** Announced by `lastgen serve` in a `lastgen-proxy` meta tag; absent on GitHub Pages. */
+function readProxy(): GitHubProxy | null {
+  const meta = document.querySelector<HTMLMetaElement>('meta[name="lastgen-proxy"]');
+  const apiUrl = meta?.dataset['apiUrl'];
+  return meta && apiUrl ? { path: meta.content, apiUrl } : null;
+}
+
+const proxy = readProxy();
+
+/** Rewrites requests for the proxied API to the proxy, leaving other hosts alone. */
+const proxiedFetch: typeof fetch = (input, init) => {
+  if (proxy && typeof input === 'string' && input.startsWith(`${proxy.apiUrl}/`)) {
+    return fetch(`${location.origin}${proxy.path}${input.slice(proxy.apiUrl.length)}`, init);
+  }
+  return fetch(input, init);
+};
+
+/**
+ * GitHub provider for a host, e.g. `ghe.example.com` for GitHub Enterprise Server.
+ * An empty host means public GitHub.
+ */
+function getProvider(host: string): ForgeProvider {
+  let provider = providers.get(host);
+  if (!provider) {
+    provider = createForgeProvider('github', {
+      apiUrl: host || undefined,
+      fetch: proxy ? proxiedFetch : undefined,
+      retry: { ...DEFAULT_RETRY_POLICY, onRetry: (message) => reportStatus(message) },
+    });
+    providers.set(host, provider);
+  }
+  return provider;
+}
+
+/**
+ * Provider for verifying a certificate through the proxy, or undefined when the certificate
+ * comes from an instance the proxy doesn't serve and verification should call it directly.
+ */
+export function getVerifyProvider(cert: Certificate): ForgeProvider | undefined {
+  const forge = cert.identity.forge ?? 'github';
+  if (
+    !proxy ||
+    forge !== 'github' ||
+    getIssuingApiUrl(forge, cert.identity.apiUrl) !== proxy.apiUrl
+  ) {
+    return undefined;
+  }
+  return createForgeProvider('github', { apiUrl: proxy.apiUrl, fetch: proxiedFetch });
+}
+
+/** Whether this page is served by `lastgen serve` for the instance lookups on `host` go to. */
+function isServedHost(host: string): boolean {
+  return proxy !== null && getProvider(host).apiUrl === proxy.apiUrl;
+}
+
+/**
+ * Link to the server's `/u/<user>` share page, whose preview shows the certificate card.
+ * Null outside `lastgen serve`, or when the lookup went to a host the server doesn't serve.
+ */
+export function getShareUrl(username: string, host = ''): string | null {
+  return isServedHost(host) ? `${location.origin}/u/${encodeURIComponent(username)}` : null;
+}
+
+/** The server's `/badge/<user>.svg` URL, or null where getShareUrl is. */
+export function getBadgeUrl(username: string, host = ''): string | null {
+  return isServedHost(host) ? `${location.origin}/badge/${encodeURIComponent(username)}.svg` : null;
+}
+
+function cacheKey(username: string, host: string): string {
+  return `${host.toLowerCase()}/${username.toLowerCase()}`;
+}
+
+function getCached(key: string): Certificate | null {
   const entry = cache.get(key);
   if (!entry) return null;
   if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
@@ -26,29 +110,27 @@ function getCached(username: string): Certificate | null {
   return entry.certificate;
 }
 
-function setCache(username: string, certificate: Certificate): void {
-  cache.set(username.toLowerCase(), { certificate, timestamp: Date.now() });
+function setCache(key: string, certificate: Certificate): void {
+  cache.set(key, { certificate, timestamp: Date.now() });
 }
 
 export async function lookupUser(
   username: string,
   onStatus: (message: string) => void,
+  host = '',
 ): Promise<Certificate> {
-  const cached = getCached(username);
+  const key = cacheKey(username, host);
+  const cached = getCached(key);
   if (cached) {
     onStatus('Using cached result...');
     return cached;
   }
 
-  onStatus('Fetching GitHub profile...');
-  const user = await fetchUser(username);
-
-  onStatus('Searching for earliest commit...');
-  const firstCommit = await fetchFirstCommit(user.login);
-
-  onStatus('Generating certificate...');
-  const certificate = await createCertificate(webHash, user, firstCommit);
+  const provider = getProvider(host);
+  reportStatus = onStatus;
+  onStatus(`Fetching ${provider.name} profile and earliest commit...`);
+  const certificate = await lookupCertificate(webHash, provider, username, { onStatus });
 
-  setCache(username, certificate);
+  setCache(key, certificate);
   return certificate;
 }
@@ -3,8 +3,9 @@
  * Reimplements the CLI's box-drawing display using <span> classes instead of ANSI codes.
  */
 
-import type { Certificate, VerifyResult } from '../../src/core/types.ts';
-import { ERAS } from '../../src/core/types.ts';
+import type { Certificate, TrustScore, VerifyResult } from '../../src/core/types.ts';
+import { ACTIVITY_LABELS } from '../../src/core/types.ts';
+import { describeEra } from '../../src/core/policy.ts';
 
 const BOX_WIDTH = 50;
 
@@ -63,8 +64,7 @@ function labelLine(label: string, value: string, styledValue: string): string[]
 }
 
 export function renderCertificate(cert: Certificate): string {
-  const isLastGen = cert.era === 'LAST_GEN';
-  const eraInfo = ERAS[cert.era];
+  const { era: eraInfo, isLatest } = describeEra(cert);
   const lines: string[] = [];
 
   lines.push(boxRule());
@@ -72,9 +72,7 @@ export function renderCertificate(cert: Certificate): string {
   const titleRaw = 'LASTGEN CERTIFICATE';
   const titlePadL = Math.floor((BOX_WIDTH - titleRaw.length) / 2);
   const titlePadR = BOX_WIDTH - titleRaw.length - titlePadL;
-  lines.push(
-    boxLine(' '.repeat(titlePadL) + bold(titleRaw) + ' '.repeat(titlePadR), BOX_WIDTH),
-  );
+  lines.push(boxLine(' '.repeat(titlePadL) + bold(titleRaw) + ' '.repeat(titlePadR), BOX_WIDTH));
 
   lines.push(boxRule());
 
@@ -90,18 +88,17 @@ export function renderCertificate(cert: Certificate): string {
     : cert.identity.username;
   lines.push(...labelLine('Developer    ', devValue, esc(devValue)));
 
-  const eraClass = isLastGen ? 'era-lastgen' : 'era-ainative';
-  lines.push(
-    ...labelLine('Era          ', eraInfo.title, colored(eraClass, eraInfo.title)),
-  );
-  lines.push(
-    ...labelLine('             ', eraInfo.description, dim(eraInfo.description)),
-  );
+  const eraClass = isLatest ? 'era-ainative' : 'era-lastgen';
+  lines.push(...labelLine('Era          ', eraInfo.title, colored(eraClass, eraInfo.title)));
+  lines.push(...labelLine('             ', eraInfo.description, dim(eraInfo.description)));
 
   if (cert.proof.firstCommit.sha) {
     lines.push(boxEmpty());
 
-    const repo = cert.proof.firstCommit.repo;
+    const repo =
+      cert.proof.source?.kind === 'local-git'
+        ? `${cert.proof.firstCommit.repo} (local git)`
+        : cert.proof.firstCommit.repo;
     lines.push(...labelLine('Proof Commit ', repo, esc(repo)));
     const shaShort = cert.proof.firstCommit.sha.slice(0, 7);
     const commitMsg = `${shaShort} ${cert.proof.firstCommit.message.replace(/\n/g, ' ')}`;
@@ -110,19 +107,52 @@ export function renderCertificate(cert: Certificate): string {
     lines.push(...labelLine('Commit Date  ', commitDate, esc(commitDate)));
   }
 
+  const activity = cert.proof.activity;
+  if (activity) {
+    lines.push(boxEmpty());
+
+    const ref = activity.number ? `${activity.ref}#${activity.number}` : activity.ref;
+    const activityValue = `${ACTIVITY_LABELS[activity.kind]} ${ref}`;
+    lines.push(...labelLine('Proof        ', activityValue, esc(activityValue)));
+    lines.push(...labelLine('             ', activity.title, dim(activity.title)));
+    const createdDate = new Date(activity.date).toISOString().slice(0, 10);
+    lines.push(...labelLine('Created      ', createdDate, esc(createdDate)));
+  }
+
+  const evidence = cert.proof.evidence;
+  if (evidence) {
+    const evidenceValue = `${evidence.length} repos, quorum ${cert.proof.quorum ?? 1}`;
+    lines.push(...labelLine('Evidence     ', evidenceValue, esc(evidenceValue)));
+  }
+
   lines.push(boxEmpty());
 
   const hash = cert.verification.hash;
   lines.push(...labelLine('Hash         ', hash, dim(hash)));
 
+  const signature = cert.verification.signature;
+  if (signature) {
+    lines.push(...labelLine('Signed by    ', signature.keyId, esc(signature.keyId)));
+  }
+
   lines.push(boxRule());
 
   return `<pre class="certificate ${eraClass}">${lines.join('\n')}</pre>`;
 }
 
+/** PASS/FAIL for error checks; INFO for trust signals; SKIP and WARN for the rest. */
+function resultIcon(result: VerifyResult): string {
+  const severity = result.severity ?? 'error';
+  if (result.skipped) return colored('warn', 'SKIP');
+  if (severity === 'info') return colored('info', 'INFO');
+  if (result.passed) return colored('pass', 'PASS');
+  return severity === 'warning' ? colored('warn', 'WARN') : colored('fail', 'FAIL');
+}
+
 export function renderVerifyResults(
   results: VerifyResult[],
   allPassed: boolean,
+  trust?: TrustScore,
 ): string {
   const lines: string[] = [];
 
@@ -131,17 +161,20 @@ export function renderVerifyResults(
   const titleRaw = 'VERIFICATION';
   const titlePadL = Math.floor((BOX_WIDTH - titleRaw.length) / 2);
   const titlePadR = BOX_WIDTH - titleRaw.length - titlePadL;
-  lines.push(
-    boxLine(' '.repeat(titlePadL) + bold(titleRaw) + ' '.repeat(titlePadR), BOX_WIDTH),
-  );
+  lines.push(boxLine(' '.repeat(titlePadL) + bold(titleRaw) + ' '.repeat(titlePadR), BOX_WIDTH));
 
   lines.push(boxRule());
 
+  let currentGroup: string | undefined;
   for (const result of results) {
-    const icon = result.passed
-      ? colored('pass', 'PASS')
-      : colored('fail', 'FAIL');
-    const checkLine = `${icon}  ${bold(result.check)}`;
+    if (result.group !== currentGroup) {
+      currentGroup = result.group;
+      if (currentGroup) {
+        const header = currentGroup.slice(0, BOX_WIDTH);
+        lines.push(boxLine(colored('group', header), header.length));
+      }
+    }
+    const checkLine = `${resultIcon(result)}  ${bold(result.check)}`;
     lines.push(boxLine(checkLine, 4 + 2 + result.check.length));
     const indent = 6;
     const maxLen = BOX_WIDTH - indent;
@@ -164,6 +197,18 @@ export function renderVerifyResults(
     lines.push(boxLine(msg, 32));
   }
 
+  if (trust) {
+    lines.push(boxRule());
+    const score = `${trust.score}/100 (${trust.level})`;
+    lines.push(
+      boxLine(`Trust score: ${colored(`trust-${trust.level}`, score)}`, 13 + score.length),
+    );
+    for (const signal of trust.signals) {
+      const text = `  ${`${signal.points}/${signal.weight}`.padStart(5)}  ${signal.signal}`;
+      lines.push(boxLine(dim(text), text.length));
+    }
+  }
+
   lines.push(boxRule());
 
   return `<pre class="verification">${lines.join('\n')}</pre>`;
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Browser share-link codec: raw DEFLATE via CompressionStream, then base64url.
+ */
+
+import type { LinkCodec } from '../../src/core/types.ts';
+import { MAX_INFLATED_BYTES } from '../../src/core/share-link.ts';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Inflates chunk by chunk and stops past MAX_INFLATED_BYTES, as links decode on page load. */
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_INFLATED_BYTES) {
+      await reader.cancel();
+      throw new Error(`Certificate inflates past ${MAX_INFLATED_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+export const webLinkCodec: LinkCodec = {
+  pack: async (text) => toBase64Url(await deflate(new TextEncoder().encode(text))),
+  unpack: async (payload) => new TextDecoder().decode(await inflate(fromBase64Url(payload))),
+};
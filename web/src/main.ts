@@ -3,11 +3,26 @@
  */
 
 import './style.css';
-import { lookupUser } from './app.ts';
+import { getBadgeUrl, getShareUrl, getVerifyProvider, lookupUser } from './app.ts';
 import { renderCertificate, renderVerifyResults } from './certificate.ts';
-import { copyBadgeMarkdown, downloadCertificateJson } from './share.ts';
+import {
+  BADGE_FILE,
+  copyBadgeMarkdown,
+  downloadBadgeSvg,
+  downloadCertificateJson,
+  downloadShareCardPng,
+} from './share.ts';
 import { isValidCertificate, verifyCertificateData } from '../../src/core/verify.ts';
+import { isTransientError } from '../../src/core/retry.ts';
+import { formatSchemaErrors, validateCertificate } from '../../src/core/schema.ts';
+import {
+  decodeCertificateLink,
+  encodeCertificateLink,
+  isCertificateLink,
+} from '../../src/core/share-link.ts';
+import { webLinkCodec } from './link-codec.ts';
 import { webHash } from './hash.ts';
+import { webVerifySignature } from './sign.ts';
 import type { Certificate } from '../../src/core/types.ts';
 
 const $ = <T extends HTMLElement>(sel: string): T => document.querySelector(sel)!;
@@ -19,6 +34,8 @@ const certOutput = $<HTMLDivElement>('#certificate-output');
 const shareButtons = $<HTMLDivElement>('#share-buttons');
 const copyLinkBtn = $<HTMLButtonElement>('#copy-link');
 const copyBadgeBtn = $<HTMLButtonElement>('#copy-badge');
+const downloadBadgeBtn = $<HTMLButtonElement>('#download-badge');
+const downloadCardBtn = $<HTMLButtonElement>('#download-card');
 const downloadJsonBtn = $<HTMLButtonElement>('#download-json');
 const dropZone = $<HTMLDivElement>('#drop-zone');
 const fileInput = $<HTMLInputElement>('#file-input');
@@ -26,6 +43,12 @@ const verifyOutput = $<HTMLDivElement>('#verify-output');
 
 let currentCert: Certificate | null = null;
 
+/** Schema errors listed when a dropped file is not a valid certificate. */
+const MAX_SCHEMA_ERRORS = 10;
+
+/** GitHub Enterprise Server host from `?host=`; empty for public GitHub. */
+const host = new URLSearchParams(window.location.search).get('host')?.trim() ?? '';
+
 function showStatus(message: string): void {
   statusEl.textContent = message;
   statusEl.hidden = false;
@@ -61,7 +84,7 @@ async function handleLookup(username: string): Promise<void> {
   currentCert = null;
 
   try {
-    const cert = await lookupUser(trimmed, showStatus);
+    const cert = await lookupUser(trimmed, showStatus, host);
     currentCert = cert;
     certOutput.innerHTML = renderCertificate(cert);
     certOutput.hidden = false;
@@ -70,10 +93,15 @@ async function handleLookup(username: string): Promise<void> {
 
     const url = new URL(window.location.href);
     url.searchParams.set('u', trimmed);
+    url.hash = '';
     history.replaceState(null, '', url);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    showError(message);
+    showError(
+      isTransientError(err)
+        ? `${message} This is a temporary failure, not a result. Try again in a few minutes.`
+        : message,
+    );
   } finally {
     setLoading(false);
   }
@@ -87,7 +115,11 @@ form.addEventListener('submit', (e) => {
 copyLinkBtn.addEventListener('click', async () => {
   if (!currentCert) return;
   try {
-    await navigator.clipboard.writeText(window.location.href);
+    // The certificate rides along in the fragment, so the link shows exactly this result.
+    const base = getShareUrl(currentCert.identity.username, host) ?? window.location.href;
+    await navigator.clipboard.writeText(
+      await encodeCertificateLink(currentCert, webLinkCodec, base),
+    );
     copyLinkBtn.textContent = 'copied!';
     setTimeout(() => {
       copyLinkBtn.textContent = 'copy link';
@@ -103,7 +135,11 @@ copyLinkBtn.addEventListener('click', async () => {
 copyBadgeBtn.addEventListener('click', async () => {
   if (!currentCert) return;
   try {
-    await copyBadgeMarkdown(currentCert);
+    const badgeUrl = getBadgeUrl(currentCert.identity.username, host);
+    await copyBadgeMarkdown(badgeUrl);
+    if (!badgeUrl) {
+      showStatus(`Download the badge too and commit it as ${BADGE_FILE} next to your README.`);
+    }
     copyBadgeBtn.textContent = 'copied!';
     setTimeout(() => {
       copyBadgeBtn.textContent = 'copy badge';
@@ -116,6 +152,23 @@ copyBadgeBtn.addEventListener('click', async () => {
   }
 });
 
+downloadBadgeBtn.addEventListener('click', () => {
+  if (!currentCert) return;
+  downloadBadgeSvg(currentCert);
+});
+
+downloadCardBtn.addEventListener('click', async () => {
+  if (!currentCert) return;
+  try {
+    await downloadShareCardPng(currentCert);
+  } catch {
+    downloadCardBtn.textContent = 'failed';
+    setTimeout(() => {
+      downloadCardBtn.textContent = 'download card';
+    }, 2000);
+  }
+});
+
 downloadJsonBtn.addEventListener('click', () => {
   if (!currentCert) return;
   downloadCertificateJson(currentCert);
@@ -134,8 +187,37 @@ async function handleVerifyFile(file: File): Promise<void> {
     return;
   }
 
+  await verifyData(data, 'File');
+}
+
+/** Shows a certificate shared with its data in the link, then verifies it. */
+async function handleCertificateLink(link: string): Promise<void> {
+  let data: unknown;
+  try {
+    data = await decodeCertificateLink(link, webLinkCodec);
+  } catch (err) {
+    showError(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  if (isValidCertificate(data)) {
+    currentCert = data;
+    input.value = data.identity.username;
+    certOutput.innerHTML = renderCertificate(data);
+    certOutput.hidden = false;
+    shareButtons.hidden = false;
+  }
+  await verifyData(data, 'Linked certificate');
+}
+
+/** Validates and verifies parsed certificate data. `source` names it in schema errors. */
+async function verifyData(data: unknown, source: string): Promise<void> {
   if (!isValidCertificate(data)) {
-    verifyOutput.innerHTML = '<p class="error">File is not a valid lastgen certificate.</p>';
+    const problems = formatSchemaErrors(validateCertificate(data))
+      .slice(0, MAX_SCHEMA_ERRORS)
+      .map((line) => `<li>${escapeHtml(line)}</li>`)
+      .join('');
+    verifyOutput.innerHTML = `<p class="error">${source} is not a valid lastgen certificate:</p><ul class="error">${problems}</ul>`;
     verifyOutput.hidden = false;
     return;
   }
@@ -144,8 +226,11 @@ async function handleVerifyFile(file: File): Promise<void> {
   verifyOutput.hidden = false;
 
   try {
-    const result = await verifyCertificateData(data, webHash);
-    verifyOutput.innerHTML = renderVerifyResults(result.results, result.valid);
+    const result = await verifyCertificateData(data, webHash, {
+      provider: getVerifyProvider(data),
+      verifySignature: webVerifySignature,
+    });
+    verifyOutput.innerHTML = renderVerifyResults(result.results, result.valid, result.trust);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     verifyOutput.innerHTML = `<p class="error">${escapeHtml(message)}</p>`;
@@ -185,7 +270,9 @@ dropZone.addEventListener('drop', (e) => {
 
 const params = new URLSearchParams(window.location.search);
 const usernameParam = params.get('u');
-if (usernameParam) {
+if (isCertificateLink(window.location.href)) {
+  handleCertificateLink(window.location.href);
+} else if (usernameParam) {
   input.value = usernameParam;
   handleLookup(usernameParam);
 }
@@ -1,28 +1,59 @@
 /**
- * @fileoverview Share utilities: copy badge markdown, download certificate JSON.
+ * @fileoverview Share utilities: copy badge markdown, download the SVG badge, the PNG share
+ * card and certificate JSON.
  */
 
 import type { Certificate } from '../../src/core/types.ts';
+import { renderBadgeSvg } from '../../src/core/badge.ts';
+import { CARD_HEIGHT, CARD_WIDTH, renderShareCardSvg } from '../../src/core/card.ts';
 
-export function getBadgeMarkdown(cert: Certificate): string {
-  const eraLabel = cert.era === 'LAST_GEN' ? 'Last%20Gen' : 'AI%20Native';
-  const color = cert.era === 'LAST_GEN' ? 'blue' : 'brightgreen';
-  const badgeUrl = `https://img.shields.io/badge/lastgen-${eraLabel}-${color}?style=for-the-badge`;
-  return `[![Last Gen Coder](${badgeUrl})](https://github.com/pgagnidze/lastgen)`;
+export const BADGE_FILE = 'lastgen-badge.svg';
+
+/**
+ * Markdown for the badge: the server's badge URL under `lastgen serve`, otherwise the
+ * downloaded badge, which has to be committed next to the README.
+ */
+export function getBadgeMarkdown(badgeUrl: string | null): string {
+  return `[![Last Gen Coder](${badgeUrl ?? BADGE_FILE})](https://github.com/pgagnidze/lastgen)`;
 }
 
-export async function copyBadgeMarkdown(cert: Certificate): Promise<void> {
-  const markdown = getBadgeMarkdown(cert);
+export async function copyBadgeMarkdown(badgeUrl: string | null): Promise<void> {
+  const markdown = getBadgeMarkdown(badgeUrl);
   await navigator.clipboard.writeText(markdown);
 }
 
-export function downloadCertificateJson(cert: Certificate): void {
-  const json = JSON.stringify(cert, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
+function download(content: string | Blob, type: string, filename: string): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `lastgen-${cert.identity.username}.json`;
+  a.download = filename;
   a.click();
   URL.revokeObjectURL(url);
 }
+
+export function downloadBadgeSvg(cert: Certificate): void {
+  download(renderBadgeSvg(cert), 'image/svg+xml', BADGE_FILE);
+}
+
+/** Rasterizes the share card through a canvas, since most link previews can't show SVG. */
+export async function downloadShareCardPng(cert: Certificate): Promise<void> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderShareCardSvg(cert))}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  canvas.getContext('2d')?.drawImage(image, 0, 0);
+  const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!png) {
+    throw new Error('Could not render the share card');
+  }
+  download(png, 'image/png', `lastgen-${cert.identity.username}.png`);
+}
+
+export function downloadCertificateJson(cert: Certificate): void {
+  const json = JSON.stringify(cert, null, 2);
+  download(json, 'application/json', `lastgen-${cert.identity.username}.json`);
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Browser Ed25519 signature verification using crypto.subtle.
+ */
+
+import type { SignatureVerifyFn } from '../../src/core/types.ts';
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+export const webVerifySignature: SignatureVerifyFn = async (publicKey, data, signature) => {
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      fromBase64Url(publicKey),
+      { name: 'Ed25519' },
+      false,
+      ['verify'],
+    );
+    const encoded = new TextEncoder().encode(data);
+    return await crypto.subtle.verify('Ed25519', key, fromBase64Url(signature), encoded);
+  } catch {
+    return false;
+  }
+};